@@ -0,0 +1,12 @@
+module.exports = {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/test'],
+    transform: {
+        // TS151002: ts-jest only warns about NodeNext without isolatedModules
+        '^.+\\.ts$': ['ts-jest', { diagnostics: { ignoreCodes: [151002] } }],
+    },
+    // sources use NodeNext style ".js" extensions
+    moduleNameMapper: {
+        '^(\\.{1,2}/.*)\\.js$': '$1',
+    },
+};
@@ -0,0 +1,100 @@
+import { FormatRegistry, type TSchema } from '@sinclair/typebox';
+import Ajv, { Format, Options, Vocabulary } from 'ajv';
+import AjvFormats from 'ajv-formats';
+import fastUri from 'fast-uri';
+
+import { getFormats, toFormatValidator } from './formats.js';
+import type { AllErrorsOptions, TypeboxModuleOptions, ValidatorDefaults, ValidatorType } from './types.js';
+
+export const DEFAULT_AJV_OPTIONS: Options = {
+    coerceTypes: 'array',
+    useDefaults: true,
+    removeAdditional: true,
+    uriResolver: fastUri,
+    addUsedSchema: false,
+    // Explicitly set allErrors to `false`.
+    // When set to `true`, a DoS attack is possible.
+    allErrors: false,
+};
+
+// Our custom keywords, always registered alongside any user supplied keywords.
+export const DEFAULT_AJV_KEYWORDS: Vocabulary = ['transform', 'example'];
+
+// Budget enforced on payloads before collecting all errors, to keep `allErrors` safe.
+export const DEFAULT_ALL_ERRORS_OPTIONS: Required<AllErrorsOptions> = {
+    maxErrors: 10,
+    maxArrayLength: 1000,
+    maxDepth: 32,
+};
+
+export const DEFAULT_VALIDATOR_DEFAULTS: Record<ValidatorType<TSchema, TSchema>, ValidatorDefaults> = {
+    body: {},
+    param: { coerceTypes: true },
+    query: { coerceTypes: true },
+    header: { coerceTypes: true },
+    // multipart form fields are always strings
+    form: { coerceTypes: true },
+    file: {},
+    payload: {},
+    response: { stripUnknownProps: true },
+};
+
+export function createAjv({ ajvOptions, formats = {}, keywords = [] }: TypeboxModuleOptions = {}): Ajv {
+    const ajv = new Ajv({
+        ...DEFAULT_AJV_OPTIONS,
+        ...ajvOptions,
+        keywords: [...DEFAULT_AJV_KEYWORDS, ...(ajvOptions?.keywords ?? []), ...keywords],
+    });
+
+    AjvFormats.default(ajv);
+
+    for (const [name, format] of Object.entries(getFormats())) {
+        ajv.addFormat(name, format);
+    }
+
+    for (const [name, format] of Object.entries<Format>(formats)) {
+        ajv.addFormat(name, format);
+    }
+
+    return ajv;
+}
+
+let activeAjv: Ajv | undefined;
+let activeAllErrorsAjv: Ajv | undefined;
+let activeOptions: TypeboxModuleOptions = {};
+
+/**
+ * Replaces the Ajv instance (and validator defaults) every validator compiles against.
+ * Called by `TypeboxModule` during bootstrap, but can be used directly when not using the module.
+ */
+export function configureTypebox(options: TypeboxModuleOptions = {}): Ajv {
+    // module formats apply to the TypeBox engine too
+    for (const [name, format] of Object.entries<Format>(options.formats ?? {})) {
+        const validate = toFormatValidator(format);
+        if (validate) FormatRegistry.Set(name, validate);
+    }
+
+    activeOptions = options;
+    activeAjv = createAjv(options);
+    activeAllErrorsAjv = undefined;
+    return activeAjv;
+}
+
+export function getTypeboxOptions(): TypeboxModuleOptions {
+    return activeOptions;
+}
+
+/**
+ * Returns the active Ajv instance, or its `allErrors` counterpart used by validators
+ * in bounded all errors mode.
+ */
+export function getAjv({ allErrors = false }: { allErrors?: boolean } = {}): Ajv {
+    if (allErrors) {
+        return (activeAllErrorsAjv ??= createAjv({ ...activeOptions, ajvOptions: { ...activeOptions.ajvOptions, allErrors: true } }));
+    }
+    return (activeAjv ??= createAjv(activeOptions));
+}
+
+export function getValidatorDefaults(type: ValidatorType<TSchema, TSchema>): ValidatorDefaults {
+    return { ...DEFAULT_VALIDATOR_DEFAULTS[type], ...activeOptions.defaults?.[type] };
+}
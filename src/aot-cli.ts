@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { generateStandaloneValidators } from './aot.js';
+import type { TypeboxModuleOptions } from './types.js';
+
+const usage = 'Usage: nestjs-typebox-aot --out <file.js> [--config <options module>] [--formats <formats module>] <controller modules...>';
+
+const { values, positionals } = parseArgs({
+    options: {
+        out: { type: 'string', short: 'o' },
+        config: { type: 'string', short: 'c' },
+        formats: { type: 'string', short: 'f' },
+    },
+    allowPositionals: true,
+});
+
+if (!values.out || !positionals.length) {
+    console.error(usage);
+    process.exit(1);
+}
+
+const loadModule = (path: string) => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const module = require(resolve(path));
+    return module?.default ?? module;
+};
+
+// loading the modules evaluates their decorators, which registers every validator schema
+for (const path of positionals) {
+    loadModule(path);
+}
+
+const typebox: TypeboxModuleOptions = values.config ? loadModule(values.config) : {};
+const out = resolve(values.out);
+
+// the types are imported under the name this package is installed as
+const { name: packageName } = JSON.parse(readFileSync(resolve(__dirname, '../package.json'), 'utf8'));
+
+writeFileSync(out, generateStandaloneValidators({ typebox, formatsModule: values.formats }));
+writeFileSync(
+    out.replace(/\.c?js$/, '.d.ts'),
+    `declare const validators: import('${packageName}').PrecompiledValidators;\nexport = validators;\n`
+);
+
+console.log(`Generated precompiled validators in ${out}`);
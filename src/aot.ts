@@ -0,0 +1,114 @@
+import { createHash } from 'node:crypto';
+
+import type { TSchema } from '@sinclair/typebox';
+import { _, Format, ValidateFunction } from 'ajv';
+import { _Code } from 'ajv/dist/compile/codegen/code.js';
+import standaloneCode from 'ajv/dist/standalone/index.js';
+
+import { createAjv, getTypeboxOptions } from './ajv.js';
+import { BUILT_IN_FORMATS, FormatValidator, getFormatSources } from './formats.js';
+import type { StandaloneValidatorsOptions } from './types.js';
+import { embedSchemaReferences, isObj, resolveSchemaReferences } from './util.js';
+
+// every schema passed to buildSchemaValidator, in the order the decorators were evaluated
+const registeredSchemas = new Set<TSchema>();
+const schemaKeys = new WeakMap<TSchema, string>();
+
+export function registerSchema(schema: TSchema) {
+    registeredSchemas.add(schema);
+}
+
+export function getRegisteredSchemas(): TSchema[] {
+    return [...registeredSchemas];
+}
+
+/**
+ * Stable key of a schema, shared by the generated module and the validators loading from it.
+ */
+export function getSchemaKey(schema: TSchema): string {
+    let key = schemaKeys.get(schema);
+    if (!key) {
+        key = createHash('sha256').update(JSON.stringify(schema)).digest('hex').slice(0, 16);
+        schemaKeys.set(schema, key);
+    }
+    return key;
+}
+
+/**
+ * Returns the validate function generated ahead of time for the schema, if `precompiled` validators were configured.
+ */
+export function getPrecompiledValidator<T>(schema: TSchema): ValidateFunction<T> | undefined {
+    const { precompiled } = getTypeboxOptions();
+    return precompiled?.[getSchemaKey(schema)] as ValidateFunction<T> | undefined;
+}
+
+const collectFormats = (schema: unknown, formats: Set<string> = new Set()): Set<string> => {
+    if (!isObj(schema)) return formats;
+    if (typeof schema.format === 'string') formats.add(schema.format);
+    for (const value of Object.values(schema)) {
+        collectFormats(value, formats);
+    }
+    return formats;
+};
+
+// source of a format in the generated module, matching how it was added to Ajv: registered formats are added as
+// functions, module formats as given. Functions may close over other values, so only the self-contained built-in
+// ones are emitted
+const getFormatCode = (name: string, format: Format | FormatValidator, registered: boolean): string | undefined => {
+    const regex = typeof format === 'string' ? new RegExp(format, 'u') : format;
+    if (regex instanceof RegExp) return registered ? `(value => ${regex.toString()}.test(value))` : regex.toString();
+    if (typeof format === 'function' && BUILT_IN_FORMATS[name] === format) return `(${format.toString()})`;
+};
+
+/**
+ * Generates a CommonJS module exporting standalone Ajv validate functions for every schema
+ * (by default all schemas of the decorated controllers loaded so far), keyed by `getSchemaKey()`.
+ */
+export function generateStandaloneValidators({
+    typebox = {},
+    schemas = getRegisteredSchemas(),
+    formatsModule,
+}: StandaloneValidatorsOptions = {}): string {
+    // registered and module formats are emitted into the generated module, which only requires ajv and ajv-formats,
+    // formats that can't be emitted have to be exported by the formats module
+    const usedFormats = schemas.reduce((formats, schema) => collectFormats(schema, formats), new Set<string>());
+    const emitted: string[] = [];
+
+    const formats: (readonly [string, Format | FormatValidator, boolean])[] = [
+        ...Object.entries(getFormatSources()).map(([name, format]) => [name, format, true] as const),
+        ...Object.entries<Format>(typebox.formats ?? {}).map(([name, format]) => [name, format, false] as const),
+    ];
+
+    for (const [name, format, registered] of formats) {
+        const code = getFormatCode(name, format, registered);
+
+        if (code) {
+            emitted.push(`${JSON.stringify(name)}: ${code}`);
+        } else if (!formatsModule && usedFormats.has(name)) {
+            throw new Error(`Format "${name}" can't be emitted into standalone validators, export it from a "formatsModule".`);
+        }
+    }
+
+    const fullFormats = _`Object.assign({}, require("ajv-formats/dist/formats").fullFormats, ${new _Code(`{${emitted.join(', ')}}`)})`;
+    const ajv = createAjv({
+        ...typebox,
+        ajvOptions: {
+            ...typebox.ajvOptions,
+            code: {
+                ...typebox.ajvOptions?.code,
+                source: true,
+                formats: formatsModule ? _`Object.assign({}, ${fullFormats}, require(${formatsModule}))` : fullFormats,
+            },
+        },
+    });
+
+    const exports: Record<string, string> = {};
+    for (const schema of schemas) {
+        const key = getSchemaKey(schema);
+        if (exports[key]) continue;
+        ajv.addSchema(embedSchemaReferences(schema, [...resolveSchemaReferences(schema, typebox.schemas).values()]), key);
+        exports[key] = key;
+    }
+
+    return standaloneCode(ajv, exports);
+}
@@ -0,0 +1,186 @@
+import type { INestApplication, INestApplicationContext } from '@nestjs/common';
+import { MetadataScanner, ModulesContainer } from '@nestjs/core';
+import type { TSchema } from '@sinclair/typebox';
+
+import { MESSAGE_PAYLOAD_METADATA, MESSAGE_RESPONSE_METADATA } from './decorators.js';
+import type { AsyncApiDocument, AsyncApiDocumentOptions, MessageHandlerMetadata, Obj, SchemaValidator } from './types.js';
+import { capitalize, hoistSchemaIds, isObj } from './util.js';
+
+// metadata of @nestjs/microservices and @nestjs/websockets, which are optional peer dependencies
+const PATTERN_METADATA = 'microservices:pattern';
+const PATTERN_HANDLER_METADATA = 'microservices:handler_type';
+const EVENT_PATTERN_HANDLER = 2;
+const GATEWAY_METADATA = 'websockets:is_gateway';
+const MESSAGE_MAPPING_METADATA = 'websockets:message_mapping';
+const MESSAGE_METADATA = 'message';
+
+const SCHEMAS_REF = '#/components/schemas/';
+const MESSAGES_REF = '#/components/messages/';
+
+// object patterns are matched with sorted keys, like the microservice transports do
+const patternToAddress = (pattern: unknown): string =>
+    isObj(pattern)
+        ? JSON.stringify(
+              Object.fromEntries(
+                  Object.keys(pattern)
+                      .sort()
+                      .map(key => [key, pattern[key]])
+              )
+          )
+        : String(pattern);
+
+/**
+ * Lists the microservice message/event handlers and WebSocket gateway message handlers of the app,
+ * along with the validators of the handlers decorated with `ValidateMessage`.
+ */
+export function getMessageHandlers(app: INestApplicationContext): MessageHandlerMetadata[] {
+    const scanner = new MetadataScanner();
+    const handlers: MessageHandlerMetadata[] = [];
+    const operationIds = new Set<string>();
+
+    const addHandler = (handler: Omit<MessageHandlerMetadata, 'operationId'>, className: string) => {
+        let operationId = `${className}_${handler.methodName}`;
+        for (let i = 2; operationIds.has(operationId); i++) {
+            operationId = `${className}_${handler.methodName}_${i}`;
+        }
+        operationIds.add(operationId);
+        handlers.push({ ...handler, operationId });
+    };
+
+    for (const module of app.get(ModulesContainer).values()) {
+        for (const { metatype } of [...module.controllers.values(), ...module.providers.values()]) {
+            // providers may be values or factories
+            if (typeof metatype !== 'function' || !metatype.prototype) continue;
+
+            const isGateway = !!Reflect.getMetadata(GATEWAY_METADATA, metatype);
+
+            for (const methodName of scanner.getAllMethodNames(metatype.prototype)) {
+                const method = metatype.prototype[methodName];
+                const payload: SchemaValidator<TSchema, TSchema> | undefined = Reflect.getMetadata(MESSAGE_PAYLOAD_METADATA, method);
+                const response: SchemaValidator<TSchema, TSchema> | undefined = Reflect.getMetadata(MESSAGE_RESPONSE_METADATA, method);
+                const patterns: unknown[] | undefined = Reflect.getMetadata(PATTERN_METADATA, method);
+
+                if (patterns) {
+                    const type = Reflect.getMetadata(PATTERN_HANDLER_METADATA, method) === EVENT_PATTERN_HANDLER ? 'event' : 'message';
+                    for (const pattern of patterns) {
+                        addHandler({ address: patternToAddress(pattern), type, methodName, payload, response }, metatype.name);
+                    }
+                } else if (isGateway && Reflect.getMetadata(MESSAGE_MAPPING_METADATA, method)) {
+                    const address = patternToAddress(Reflect.getMetadata(MESSAGE_METADATA, method));
+                    addHandler({ address, type: 'ws', methodName, payload, response }, metatype.name);
+                }
+            }
+        }
+    }
+
+    return handlers;
+}
+
+/**
+ * Generates an AsyncAPI document of the message handlers of the app, which receive their messages on
+ * a channel per pattern. Payload and reply schemas are shared components, identical schemas are declared
+ * once and sub schemas with an `$id` (i.e. targets of `Type.Ref()`) are declared under their `$id`.
+ */
+export function createAsyncApiDocument(
+    app: INestApplicationContext,
+    { asyncapi = '3.0.0', info, servers, defaultContentType = 'application/json' }: AsyncApiDocumentOptions
+): AsyncApiDocument {
+    const schemas: Obj<Obj> = {};
+    const messages: Obj<Obj> = {};
+    const channels: Obj<Obj> = {};
+    const operations: Obj<Obj> = {};
+    const componentNames = new Map<string, string>();
+
+    // schemas with an $id are referenced by it, so they are never renamed
+    const addComponent = (name: string, schema: Obj, dedupe: boolean): string => {
+        const serialized = JSON.stringify(schema);
+        const existing = componentNames.get(serialized);
+        if (existing && (dedupe || existing === name)) return existing;
+
+        if (schemas[name]) {
+            throw new Error(`AsyncAPI schema "${name}" is declared by different schemas.`);
+        }
+
+        schemas[name] = schema;
+        componentNames.set(serialized, name);
+        return name;
+    };
+
+    const addMessage = (name: string, validator?: SchemaValidator<TSchema, TSchema>): string => {
+        const message: Obj = { name };
+
+        if (validator) {
+            const { schema, definitions } = hoistSchemaIds(validator.schema, SCHEMAS_REF);
+            for (const [id, definition] of Object.entries(definitions)) {
+                addComponent(id, definition, false);
+            }
+
+            const schemaName = typeof validator.schema.$id === 'string' ? validator.schema.$id : validator.name;
+            message.payload = { $ref: `${SCHEMAS_REF}${addComponent(schemaName, schema, schemaName === validator.name)}` };
+        }
+
+        if (messages[name] && JSON.stringify(messages[name]) !== JSON.stringify(message)) {
+            throw new Error(`AsyncAPI message "${name}" is declared by different handlers, name their validators.`);
+        }
+
+        messages[name] = message;
+        return name;
+    };
+
+    for (const { address, operationId, methodName, payload, response } of getMessageHandlers(app)) {
+        const payloadMessage = addMessage(payload?.name ?? `${capitalize(methodName)}Payload`, payload);
+        const replyMessage = response && addMessage(response.name, response);
+
+        if (asyncapi.startsWith('2.')) {
+            // the app receives the messages clients publish to the channel
+            const channel = (channels[address] ??= {});
+            const message = { $ref: `${MESSAGES_REF}${payloadMessage}` };
+            const publish = channel.publish as { message: Obj & { oneOf?: Obj[] } } | undefined;
+
+            // handlers sharing a channel (i.e. of the same event) publish one of their messages
+            channel.publish = publish
+                ? { ...publish, message: { oneOf: [...(publish.message.oneOf ?? [publish.message]), message] } }
+                : { operationId, message, ...(replyMessage && { 'x-reply': { message: { $ref: `${MESSAGES_REF}${replyMessage}` } } }) };
+            continue;
+        }
+
+        const channelId = address.replace(/[^\w-]/g, '_');
+        const channel = (channels[channelId] ??= { address, messages: {} });
+        const channelMessages = channel.messages as Obj;
+
+        channelMessages[payloadMessage] = { $ref: `${MESSAGES_REF}${payloadMessage}` };
+        if (replyMessage) {
+            channelMessages[replyMessage] = { $ref: `${MESSAGES_REF}${replyMessage}` };
+        }
+
+        operations[operationId] = {
+            action: 'receive',
+            channel: { $ref: `#/channels/${channelId}` },
+            messages: [{ $ref: `#/channels/${channelId}/messages/${payloadMessage}` }],
+            ...(replyMessage && {
+                reply: {
+                    channel: { $ref: `#/channels/${channelId}` },
+                    messages: [{ $ref: `#/channels/${channelId}/messages/${replyMessage}` }],
+                },
+            }),
+        };
+    }
+
+    return {
+        asyncapi,
+        info,
+        ...(servers && { servers }),
+        defaultContentType,
+        channels,
+        ...(!asyncapi.startsWith('2.') && { operations }),
+        components: { messages, schemas },
+    };
+}
+
+/**
+ * Serves the AsyncAPI document as JSON from `path`, like `SwaggerModule.setup()`. Call it before `app.init()`/`app.listen()`.
+ */
+export function setupAsyncApi(path: string, app: INestApplication, document: AsyncApiDocument) {
+    const httpAdapter = app.getHttpAdapter();
+    httpAdapter.get(path.startsWith('/') ? path : `/${path}`, (_req: unknown, res: unknown) => httpAdapter.reply(res, document, 200));
+}
@@ -0,0 +1,167 @@
+import type { TSchema } from '@sinclair/typebox';
+import { HasTransform, TransformDecode, TransformEncode } from '@sinclair/typebox/value';
+import Ajv, { ErrorObject } from 'ajv';
+
+import { createAjv } from './ajv.js';
+import { DEFAULT_CONTENT_TYPE, getMediaType, parseNdjson, serializeBody } from './content-types.js';
+import type { ApiClient, ApiClientOptions, ApiContract, BodyContentType, Obj, RouteContract, RouteRequestContract } from './types.js';
+import { collectSchemaIds, isObj } from './util.js';
+
+/** Thrown by client calls when the app responds with an error status, carrying the parsed error body. */
+export class ApiClientError extends Error {
+    constructor(
+        message: string,
+        readonly status: number,
+        readonly body: unknown
+    ) {
+        super(message);
+        this.name = 'ApiClientError';
+    }
+}
+
+/** Thrown by client calls when a request arg or response fails client-side validation. */
+export class ApiClientValidationError extends Error {
+    constructor(
+        message: string,
+        readonly errors: ErrorObject[]
+    ) {
+        super(message);
+        this.name = 'ApiClientValidationError';
+    }
+}
+
+// query objects (i.e. filters) are sent in bracket notation and arrays as repeated keys, as the query validators expect
+const appendQuery = (query: URLSearchParams, key: string, value: unknown) => {
+    if (value === undefined) return;
+    if (Array.isArray(value)) {
+        value.forEach(item => appendQuery(query, key, item));
+    } else if (isObj(value)) {
+        Object.entries(value).forEach(([prop, item]) => appendQuery(query, `${key}[${prop}]`, item));
+    } else {
+        query.append(key, String(value));
+    }
+};
+
+const encodeBody = (contentType: BodyContentType, value: unknown) => {
+    switch (contentType) {
+        case 'application/json':
+            return JSON.stringify(value);
+        case 'application/x-www-form-urlencoded': {
+            const form = new URLSearchParams();
+            Object.entries(value as Obj).forEach(([key, item]) => appendQuery(form, key, item));
+            return form.toString();
+        }
+        default:
+            return serializeBody(contentType, value) as string;
+    }
+};
+
+const parseResponse = async (response: Response): Promise<unknown> => {
+    const text = await response.text();
+    if (!text) return;
+
+    const mediaType = getMediaType(response.headers.get('content-type'));
+    if (/[/+]json\b/.test(mediaType)) return JSON.parse(text);
+    if (mediaType === 'application/x-ndjson') return parseNdjson(text).data;
+    return text;
+};
+
+// values are only checked, never coerced, defaulted or stripped as they are by the app
+let clientAjv: Ajv | undefined;
+
+const validateValue = (schema: TSchema, value: unknown, description: string) => {
+    clientAjv ??= createAjv({ ajvOptions: { coerceTypes: false, useDefaults: false, removeAdditional: false } });
+
+    const check = clientAjv.compile(schema);
+    if (!check(value)) {
+        throw new ApiClientValidationError(`${description} failed validation`, check.errors ?? []);
+    }
+};
+
+// args are encoded and responses decoded as the app decodes and encodes them, when the contract schemas still carry
+// their transforms (serialized contracts don't)
+const transformValue = (codec: typeof TransformDecode | typeof TransformEncode, schema: TSchema, value: unknown) => {
+    const references = [...collectSchemaIds(schema).values()].filter(reference => reference !== schema);
+    return HasTransform(schema, references) ? codec(schema, references, value) : value;
+};
+
+const describeArg = ({ type, name }: RouteRequestContract) => (name ? `${type} "${name}"` : type);
+
+/**
+ * Creates a fetch based client of the routes of a contract (see `defineContract()`), with methods named and typed
+ * after the controller handlers. Methods take the handler's validated args, in the same order. Args and responses of
+ * schemas with transforms (i.e. dates) are encoded and decoded like the app does, unless the contract was serialized.
+ *
+ * ```ts
+ * const client = createApiClient<PetController>(contract, { baseUrl: 'https://api.example.com' });
+ * const pet = await client.getPet(7);
+ * ```
+ */
+export function createApiClient<TController>(
+    contract: ApiContract,
+    { baseUrl, fetch: fetchFn = fetch, headers: defaultHeaders = {}, validate = false }: ApiClientOptions
+): ApiClient<TController> {
+    const validateRequest = validate === true || (typeof validate === 'object' && !!validate.request);
+    const validateResponse = validate === true || (typeof validate === 'object' && !!validate.response);
+
+    const call = async (routeName: string, { method, path, request, responses }: RouteContract, args: unknown[]) => {
+        const query = new URLSearchParams();
+        const headers: Record<string, string> = { ...defaultHeaders };
+        let url = path;
+        let body: string | undefined;
+
+        for (const arg of request) {
+            const value = args[arg.index] === undefined ? undefined : transformValue(TransformEncode, arg.schema, args[arg.index]);
+
+            if (validateRequest && (value !== undefined || arg.required)) {
+                validateValue(arg.schema, value, `${routeName} ${describeArg(arg)}`);
+            }
+            if (value === undefined) continue;
+
+            switch (arg.type) {
+                case 'param':
+                    url = url.replace(new RegExp(`:${arg.name}\\??(?=/|$)`), encodeURIComponent(String(value)));
+                    break;
+                case 'query':
+                    if (arg.name) {
+                        appendQuery(query, arg.name, value);
+                    } else {
+                        Object.entries(value as Obj).forEach(([key, item]) => appendQuery(query, key, item));
+                    }
+                    break;
+                case 'header':
+                    headers[arg.name!.toLowerCase()] = String(value);
+                    break;
+                case 'body': {
+                    const contentType = arg.contentTypes?.[0] ?? DEFAULT_CONTENT_TYPE;
+                    headers['content-type'] = contentType;
+                    body = encodeBody(contentType, value);
+                }
+            }
+        }
+
+        // optional path params which weren't passed
+        url = url.replace(/\/:[^/]+\?(?=\/|$)/g, '');
+
+        const search = query.toString();
+        const response = await fetchFn(`${baseUrl.replace(/\/+$/, '')}${url}${search ? `?${search}` : ''}`, { method, headers, body });
+        const data = await parseResponse(response);
+
+        if (!response.ok) {
+            throw new ApiClientError(`${method} ${url} failed with status ${response.status}`, response.status, data);
+        }
+
+        const responseSchema = responses[response.status];
+        if (!responseSchema) return data;
+
+        if (validateResponse) {
+            validateValue(responseSchema, data, `${routeName} response`);
+        }
+
+        return transformValue(TransformDecode, responseSchema, data);
+    };
+
+    return Object.fromEntries(
+        Object.entries(contract.routes).map(([routeName, route]) => [routeName, (...args: unknown[]) => call(routeName, route, args)])
+    ) as ApiClient<TController>;
+}
@@ -0,0 +1,87 @@
+import type { IncomingMessage } from 'node:http';
+
+import { ErrorObject } from 'ajv';
+
+import type { BodyContentType } from './types.js';
+
+export const DEFAULT_CONTENT_TYPE: BodyContentType = 'application/json';
+
+// bodies express/fastify don't parse by default, read from the request stream instead
+const RAW_CONTENT_TYPES: BodyContentType[] = ['text/plain', 'application/x-ndjson'];
+
+/** Media type of a Content-Type header, without parameters such as the charset. */
+export const getMediaType = (contentType: unknown): string =>
+    typeof contentType === 'string' ? contentType.split(';')[0].trim().toLowerCase() : '';
+
+export const readRawBody = (req: IncomingMessage & { body?: unknown }): Promise<string | undefined> => {
+    if (typeof req.body === 'string') return Promise.resolve(req.body);
+    if (Buffer.isBuffer(req.body)) return Promise.resolve(req.body.toString('utf8'));
+    if (req.readableEnded) return Promise.resolve(undefined);
+
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+};
+
+export interface RequestBody {
+    contentType: string;
+    body: unknown;
+}
+
+export const extractRequestBody = async (req: IncomingMessage & { body?: unknown }): Promise<RequestBody> => {
+    const contentType = getMediaType(req.headers['content-type']);
+    const body = RAW_CONTENT_TYPES.includes(contentType as BodyContentType) ? await readRawBody(req) : req.body;
+    return { contentType, body };
+};
+
+/**
+ * Parses NDJSON into an array of its lines, returning an error pointing at the first invalid line.
+ */
+export const parseNdjson = (text: string): { data: unknown[]; error?: ErrorObject } => {
+    const data: unknown[] = [];
+    const lines = text.split('\n').filter(line => line.trim() !== '');
+
+    for (const [i, line] of lines.entries()) {
+        try {
+            data.push(JSON.parse(line));
+        } catch {
+            return {
+                data,
+                error: { keyword: 'ndjson', instancePath: `/${i}`, schemaPath: '#', params: {}, message: 'must be a valid JSON line' },
+            };
+        }
+    }
+
+    return { data };
+};
+
+export const serializeBody = (contentType: BodyContentType, data: unknown): unknown => {
+    switch (contentType) {
+        case 'application/x-ndjson':
+            return Array.isArray(data) ? data.map(item => JSON.stringify(item)).join('\n') + '\n' : data;
+        case 'text/plain':
+            return data === undefined || data === null ? data : String(data);
+        default:
+            return data;
+    }
+};
+
+/**
+ * Picks the first of the content types accepted by an Accept header (ignoring quality values),
+ * falling back to the first content type.
+ */
+export const negotiateContentType = (accept: unknown, contentTypes: BodyContentType[]): BodyContentType => {
+    const accepted = typeof accept === 'string' ? accept.split(',').map(getMediaType) : [];
+
+    for (const mediaType of accepted) {
+        const match = contentTypes.find(
+            contentType => mediaType === contentType || mediaType === '*/*' || mediaType === `${contentType.split('/')[0]}/*`
+        );
+        if (match) return match;
+    }
+
+    return contentTypes[0];
+};
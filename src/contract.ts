@@ -0,0 +1,69 @@
+import { RequestMethod, type Type } from '@nestjs/common';
+import { METHOD_METADATA, PATH_METADATA, SSE_METADATA } from '@nestjs/common/constants.js';
+import { MetadataScanner } from '@nestjs/core';
+import { DECORATORS } from '@nestjs/swagger/dist/constants.js';
+import type { TSchema } from '@sinclair/typebox';
+
+import { getTypeboxOptions } from './ajv.js';
+import { isSchemaValidator, REQUEST_VALIDATORS_METADATA } from './decorators.js';
+import type { ApiContract, HttpMethod, Obj, RouteContract, RouteRequestContract } from './types.js';
+import { embedSchemaReferences, resolveSchemaReferences } from './util.js';
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PATCH', 'DELETE', 'PUT'];
+
+const joinPaths = (...paths: unknown[]) =>
+    '/' +
+    paths
+        .map(path => (Array.isArray(path) ? path[0] : path))
+        .filter((path): path is string => typeof path === 'string')
+        .map(path => path.replace(/^\/+|\/+$/g, ''))
+        .filter(Boolean)
+        .join('/');
+
+// contract schemas are self-contained, embedding the shared schemas (see `TypeboxModule`) they reference
+const embedReferences = (schema: TSchema) =>
+    embedSchemaReferences(schema, [...resolveSchemaReferences(schema, getTypeboxOptions().schemas).values()]);
+
+/**
+ * Describes the routes of decorated controllers as a serializable contract, keyed by handler name: method, path,
+ * the validated request args (by handler param index) and response schemas. Server-sent events routes are skipped.
+ */
+export function defineContract(...controllers: Type[]): ApiContract {
+    const scanner = new MetadataScanner();
+    const routes: Obj<RouteContract> = {};
+    const declaredBy: Obj<string> = {};
+
+    for (const controller of controllers) {
+        for (const methodName of scanner.getAllMethodNames(controller.prototype)) {
+            const handler = controller.prototype[methodName];
+            const method = RequestMethod[Reflect.getMetadata(METHOD_METADATA, handler)] as HttpMethod | undefined;
+
+            if (!method || !HTTP_METHODS.includes(method) || Reflect.getMetadata(SSE_METADATA, handler)) continue;
+
+            if (routes[methodName]) {
+                throw new Error(`Route "${methodName}" is declared by both ${declaredBy[methodName]} and ${controller.name}.`);
+            }
+
+            const responses: Record<number, TSchema> = {};
+            for (const [status, { type }] of Object.entries<{ type?: unknown }>(
+                Reflect.getMetadata(DECORATORS.API_RESPONSE, handler) ?? {}
+            )) {
+                if (isSchemaValidator(type)) {
+                    responses[Number(status)] = embedReferences(type.schema);
+                }
+            }
+
+            const request: RouteRequestContract[] = Reflect.getMetadata(REQUEST_VALIDATORS_METADATA, handler) ?? [];
+
+            routes[methodName] = {
+                method,
+                path: joinPaths(Reflect.getMetadata(PATH_METADATA, controller), Reflect.getMetadata(PATH_METADATA, handler)),
+                request: [...request].sort((a, b) => a.index - b.index).map(arg => ({ ...arg, schema: embedReferences(arg.schema) })),
+                responses,
+            };
+            declaredBy[methodName] = controller.name;
+        }
+    }
+
+    return { routes };
+}
@@ -1,44 +1,113 @@
-import { applyDecorators, assignMetadata, Delete, Get, HttpCode, Patch, PipeTransform, Post, Put } from '@nestjs/common';
+import {
+    applyDecorators,
+    assignMetadata,
+    BadRequestException,
+    Delete,
+    ExecutionContext,
+    Get,
+    HttpCode,
+    Patch,
+    PipeTransform,
+    Post,
+    Put,
+    Sse,
+    UnsupportedMediaTypeException,
+} from '@nestjs/common';
 import { INTERCEPTORS_METADATA, ROUTE_ARGS_METADATA } from '@nestjs/common/constants.js';
 import { RouteParamtypes } from '@nestjs/common/enums/route-paramtypes.enum.js';
+import { assignCustomParameterMetadata } from '@nestjs/common/utils/assign-custom-metadata.util.js';
 import { extendArrayMetadata } from '@nestjs/common/utils/extend-metadata.util.js';
-import { ApiBody, ApiOperation, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { loadPackage } from '@nestjs/common/utils/load-package.util.js';
+import { ApiBody, ApiConsumes, ApiHeader, ApiOperation, ApiParam, ApiProduces, ApiQuery } from '@nestjs/swagger';
 import { DECORATORS } from '@nestjs/swagger/dist/constants.js';
+import type { SchemaObject } from '@nestjs/swagger/dist/interfaces/open-api-spec.interface.js';
 import { Static, TSchema, Type, TypeGuard } from '@sinclair/typebox';
-import Ajv from 'ajv';
-import AjvFormats from 'ajv-formats';
-import fastUri from 'fast-uri';
-
-import { AjvValidationException } from './exceptions.js';
-import { TypeboxTransformInterceptor } from './interceptors.js';
+import { HasTransform, TransformDecode, TransformEncode } from '@sinclair/typebox/value';
+import { ErrorObject } from 'ajv';
+
+import { DEFAULT_ALL_ERRORS_OPTIONS, getTypeboxOptions, getValidatorDefaults } from './ajv.js';
+import { registerSchema } from './aot.js';
+import { extractRequestBody, parseNdjson, RequestBody } from './content-types.js';
+import { getValidationEngine } from './engines.js';
+import { AjvValidationException, ResponseValidationException } from './exceptions.js';
+import { TypeboxMessageInterceptor, TypeboxTransformInterceptor } from './interceptors.js';
+import { getMockResponse } from './mock.js';
 import type {
+    AllErrorsOptions,
+    BodyContentType,
+    EventsValidatorConfig,
+    EventsValidators,
+    FileConstraints,
     HttpEndpointDecoratorConfig,
+    HttpEndpointResponseValidators,
+    MessageResponse,
+    MessageResponseValidators,
+    MessageValidatorConfig,
     MethodDecorator,
     Obj,
+    PayloadValidatorConfig,
+    PayloadValidators,
     RequestConfigsToTypes,
     RequestValidatorConfig,
+    ResponseConfigToType,
     ResponseValidatorConfig,
+    ResponseValidatorMap,
+    ResponseValidators,
+    RouteRequestContract,
+    SchemaConfigToType,
     SchemaValidator,
     SchemaValidatorConfig,
+    SseEndpointDecoratorConfig,
+    SseResponse,
+    TypeboxModuleOptions,
+    UploadedFile,
+    ValidationCheck,
+    ValidationErrorFormatter,
     ValidatorConfig,
+    VersionedSchemas,
 } from './types.js';
-import { capitalize, coerceType, isObj } from './util.js';
-
-const ajv = new Ajv({
-    coerceTypes: 'array',
-    useDefaults: true,
-    removeAdditional: true,
-    uriResolver: fastUri,
-    addUsedSchema: false,
-    // Explicitly set allErrors to `false`.
-    // When set to `true`, a DoS attack is possible.
-    allErrors: false,
-
-    // Our custom options:
-    keywords: ['transform', 'example'],
-});
+import {
+    capitalize,
+    checkPayloadBudget,
+    coerceValue,
+    expandQueryKeys,
+    isObj,
+    removeUnknownProps,
+    resolveSchemaReferences,
+} from './util.js';
+import { getRequestVersion } from './versioning.js';
+
+export const RESPONSE_HEADERS_METADATA = 'typebox:response-headers';
+export const RESPONSE_CONTENT_TYPES_METADATA = 'typebox:response-content-types';
+export const EVENTS_METADATA = 'typebox:events';
+export const MESSAGE_PAYLOAD_METADATA = 'typebox:message-payload';
+export const MESSAGE_RESPONSE_METADATA = 'typebox:message-response';
+export const REQUEST_VALIDATORS_METADATA = 'typebox:request-validators';
+
+// pipes are never applied to RouteParamtypes.HEADERS, so headers are extracted
+// through a custom route param factory instead (header names are case-insensitive)
+const HEADER_PARAMTYPE = 'typeboxHeader';
+const extractHeader = (name: string, ctx: ExecutionContext) => ctx.switchToHttp().getRequest().headers[name.toLowerCase()];
+
+// bodies of validators with content types, read from the request stream when not parsed by the platform
+const BODY_PARAMTYPE = 'typeboxBody';
+const extractBody = (_: unknown, ctx: ExecutionContext) => extractRequestBody(ctx.switchToHttp().getRequest());
+
+// text fields and files of multipart/form-data requests, as parsed by multer
+const MULTIPART_PARAMTYPE = 'typeboxMultipart';
+interface MultipartRequest {
+    body?: Obj;
+    files?: UploadedFile[];
+}
+const extractMultipart = (_: unknown, ctx: ExecutionContext): MultipartRequest => {
+    const { body, files } = ctx.switchToHttp().getRequest();
+    return { body, files: Array.isArray(files) ? files : [] };
+};
 
-AjvFormats.default(ajv);
+// payloads of microservice messages and WebSocket messages, whose handlers receive different arguments
+const MESSAGE_PAYLOAD_PARAMTYPE = 'typeboxPayload';
+const extractPayload = (_: unknown, ctx: ExecutionContext) =>
+    ctx.getType() === 'ws' ? ctx.switchToWs().getData() : ctx.switchToRpc().getData();
 
 export function isSchemaValidator<TRequestSchema extends TSchema, TResponseSchema extends TSchema>(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -47,14 +116,73 @@ export function isSchemaValidator<TRequestSchema extends TSchema, TResponseSchem
     return type && typeof type === 'object' && typeof type.validate === 'function';
 }
 
-export function buildSchemaValidator<TRequestSchema extends TSchema, TResponseSchema extends TSchema>({
-    type,
-    schema,
-    coerceTypes,
-    stripUnknownProps,
-    name,
-    required,
-}: SchemaValidatorConfig<TRequestSchema, TResponseSchema>): SchemaValidator<TRequestSchema, TResponseSchema> {
+export function isVersionedSchemas<TTSchema extends TSchema>(schemas: unknown): schemas is VersionedSchemas<TTSchema> {
+    return (
+        isObj(schemas) &&
+        !TypeGuard.IsSchema(schemas) &&
+        Object.keys(schemas).length > 0 &&
+        Object.values(schemas).every(TypeGuard.IsSchema)
+    );
+}
+
+/**
+ * Builds a validator per version of versioned schemas, validating against the schema of the request version.
+ * Outside of versioned requests (i.e. without versioning) the last version applies.
+ */
+function buildVersionedSchemaValidator<TRequestSchema extends TSchema, TResponseSchema extends TSchema>(
+    config: SchemaValidatorConfig<TRequestSchema, TResponseSchema>,
+    schemas: VersionedSchemas<TRequestSchema | TResponseSchema>
+): SchemaValidator<TRequestSchema, TResponseSchema> {
+    const versions = Object.fromEntries(
+        Object.entries(schemas).map(([version, schema]) => [
+            version,
+            buildSchemaValidator({ ...config, schema } as SchemaValidatorConfig<TRequestSchema, TResponseSchema>),
+        ])
+    );
+    const latest = Object.values(versions).at(-1)!;
+
+    const getValidator = () => {
+        const version = getRequestVersion();
+        if (version === undefined) return latest;
+        // i.e. version neutral handlers receiving any version, an unknown version is a client error
+        if (!versions[version]) {
+            throw new BadRequestException(`Version "${version}" is not supported by "${config.name}".`);
+        }
+        return versions[version];
+    };
+
+    return {
+        // documents generated per version document the schema of their version
+        get schema() {
+            const version = getRequestVersion();
+            return (version !== undefined && versions[version]?.schema) || latest.schema;
+        },
+        name: latest.name,
+        versions,
+        get check() {
+            return getValidator().check;
+        },
+        validate(value) {
+            return getValidator().validate(value);
+        },
+    };
+}
+
+export function buildSchemaValidator<TRequestSchema extends TSchema, TResponseSchema extends TSchema>(
+    config: SchemaValidatorConfig<TRequestSchema, TResponseSchema>
+): SchemaValidator<TRequestSchema, TResponseSchema> {
+    const {
+        type,
+        schema,
+        coerceTypes: coerceTypesOption,
+        stripUnknownProps: stripUnknownPropsOption,
+        name,
+        required,
+        errorFormatter,
+        allErrors: allErrorsOption,
+        engine: engineOption,
+    } = config;
+
     if (!type) {
         throw new Error('Validator missing "type".');
     }
@@ -63,86 +191,231 @@ export function buildSchemaValidator<TRequestSchema extends TSchema, TResponseSc
         throw new Error(`Validator of type "${type}" missing name.`);
     }
 
+    if (isVersionedSchemas<TRequestSchema | TResponseSchema>(schema)) {
+        return buildVersionedSchemaValidator(config, schema);
+    }
+
     if (!TypeGuard.IsSchema(schema)) {
         throw new Error(`Validator "${name}" expects a TypeBox schema.`);
     }
 
-    const check = ajv.compile<Static<TRequestSchema | TResponseSchema>>(schema);
+    registerSchema(schema);
+
+    // the schemas with an $id resolving the `Type.Ref()`s of the schema, embedded or shared through the options of
+    // TypeboxModule, which is configured after decorators are evaluated, so they are resolved lazily
+    type References = { references: Map<string, TSchema>; referencedSchemas: TSchema[]; hasTransform: boolean };
+    const resolvedReferences = new WeakMap<TypeboxModuleOptions, References>();
+    const getReferences = (): References => {
+        const options = getTypeboxOptions();
+        let resolved = resolvedReferences.get(options);
+        if (!resolved) {
+            const references = resolveSchemaReferences(schema, options.schemas);
+            const referencedSchemas = [...references.values()].filter(reference => reference !== schema);
+            resolved = { references, referencedSchemas, hasTransform: HasTransform(schema, referencedSchemas) };
+            resolvedReferences.set(options, resolved);
+        }
+        return resolved;
+    };
+
+    // compiled lazily, and again whenever configureTypebox() replaces the options (and with them the
+    // Ajv instance or default engine), so that the configuration of TypeboxModule is used
+    type Check = ValidationCheck<Static<TRequestSchema | TResponseSchema>>;
+    const compiled = new WeakMap<TypeboxModuleOptions, Map<string, Check>>();
+    const getCheck = (allErrors: boolean) => {
+        const options = getTypeboxOptions();
+        const engine = getValidationEngine(engineOption);
+        const checks = compiled.get(options) ?? new Map<string, Check>();
+        const key = `${engine.name}${allErrors ? ':allErrors' : ''}`;
+        let check = checks.get(key);
+        if (!check) {
+            const { referencedSchemas: references } = getReferences();
+            check = engine.compile<Static<TRequestSchema | TResponseSchema>>(schema, { allErrors, references });
+            checks.set(key, check);
+            compiled.set(options, checks);
+        }
+        return check;
+    };
+
+    // bounded all errors mode is only available to request validators
+    const getAllErrorsOptions = (): Required<AllErrorsOptions> | undefined => {
+        const allErrors = allErrorsOption ?? getValidatorDefaults(type).allErrors;
+        if (!allErrors || type === 'response') return;
+        return { ...DEFAULT_ALL_ERRORS_OPTIONS, ...(allErrors === true ? {} : allErrors) };
+    };
+
+    // invalid responses are server errors, so they must not be reported as a 400 to the client
+    const validationException = (errors: ErrorObject[] | null | undefined, maxErrors?: number, data?: unknown) =>
+        type === 'response'
+            ? new ResponseValidationException(name, errors, data)
+            : new AjvValidationException<TRequestSchema, TResponseSchema>(type, errors, { errorFormatter, name, maxErrors });
+
+    // request values are decoded after validation, response values are encoded before validation
+    const transform = (codec: typeof TransformDecode | typeof TransformEncode, value: unknown) => {
+        try {
+            return codec(schema, getReferences().referencedSchemas, value);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw validationException([{ keyword: 'transform', instancePath: '', schemaPath: '#/transform', params: {}, message }]);
+        }
+    };
 
     return {
         schema,
         name,
-        check,
-        validate(dataOrArray: unknown) {
-            let jsonSchema: Obj;
-            let processedDataOrArray = dataOrArray;
-
-            if (coerceTypes || stripUnknownProps) {
-                let dataArray: unknown[];
-
-                if (Array.isArray(dataOrArray)) {
-                    jsonSchema = schema.items ?? {};
-                    dataArray = dataOrArray;
-                } else {
-                    jsonSchema = schema;
-                    dataArray = [dataOrArray];
-                }
+        get check() {
+            return getCheck(!!getAllErrorsOptions());
+        },
+        validate(value: unknown) {
+            const allErrors = getAllErrorsOptions();
+            const budgetError = allErrors && checkPayloadBudget(value, allErrors);
+            if (budgetError) {
+                throw validationException([budgetError]);
+            }
 
-                const knownPropTypes = ((jsonSchema.anyOf ?? jsonSchema.allOf ?? [jsonSchema]) as Obj[]).reduce(
-                    (obj: Obj<string>, schema) => {
-                        for (const [prop, def] of Object.entries(schema.properties ?? {})) {
-                            obj[prop] = def && typeof def === 'object' && 'type' in def ? String(def.type) : 'unknown';
-                        }
-                        return obj;
-                    },
-                    {}
-                );
-
-                for (let i = 0; i < dataArray.length; i++) {
-                    const data = dataArray[i];
-                    if (isObj(data)) {
-                        const processedData = stripUnknownProps ? {} : data;
-                        for (const prop in data) {
-                            if (knownPropTypes[prop] === undefined) continue;
-
-                            if (stripUnknownProps) {
-                                processedData[prop] = data[prop];
-                            }
+            const { references, hasTransform } = getReferences();
+            const dataOrArray = hasTransform && type === 'response' ? transform(TransformEncode, value) : value;
+            const defaults = getValidatorDefaults(type);
+            const coerceTypes = coerceTypesOption ?? defaults.coerceTypes;
+            const stripUnknownProps = stripUnknownPropsOption ?? defaults.stripUnknownProps;
 
-                            if (coerceTypes) {
-                                processedData[prop] = coerceType(knownPropTypes[prop], data[prop]);
-                            }
-                        }
-                        dataArray[i] = processedData;
-                    } else if (coerceTypes && typeof jsonSchema.type === 'string') {
-                        dataArray[i] = coerceType(jsonSchema.type, data);
-                    }
-                }
+            let processedDataOrArray = coerceTypes ? coerceValue(schema, dataOrArray) : dataOrArray;
 
-                processedDataOrArray = Array.isArray(dataOrArray) ? dataArray : dataArray[0];
+            if (stripUnknownProps) {
+                processedDataOrArray = removeUnknownProps(schema, processedDataOrArray, references);
             }
 
             if (processedDataOrArray === undefined && !required) {
                 return;
             }
 
-            if (check(processedDataOrArray)) return processedDataOrArray;
-            throw new AjvValidationException<TRequestSchema, TResponseSchema>(type, check.errors);
+            const check = getCheck(!!allErrors);
+            if (check(processedDataOrArray)) {
+                return hasTransform && type !== 'response' ? transform(TransformDecode, processedDataOrArray) : processedDataOrArray;
+            }
+            throw validationException(check.errors, allErrors?.maxErrors, processedDataOrArray);
         },
     };
 }
 
+export function isResponseValidatorMap<TResponseSchema extends TSchema>(
+    config: ResponseValidators<TResponseSchema>
+): config is ResponseValidatorMap<TResponseSchema> {
+    return !TypeGuard.IsSchema(config) && (config as ResponseValidatorConfig<TResponseSchema>).schema === undefined;
+}
+
+const matchesMimeType = (mimeType: string, accepted: string) =>
+    accepted.endsWith('/*') ? mimeType.startsWith(accepted.slice(0, -1)) : mimeType === accepted;
+
+/**
+ * Builds a validator for the files uploaded under a multipart/form-data field, returning the
+ * file (or files when `multiple`) if they satisfy the constraints.
+ */
+export function buildFileValidator({
+    name,
+    mimeTypes,
+    maxSize,
+    multiple = false,
+    maxCount,
+    required = true,
+    errorFormatter,
+}: FileConstraints & { name: string; errorFormatter?: ValidationErrorFormatter }) {
+    return {
+        name,
+        validate(files: UploadedFile[] = []): UploadedFile | UploadedFile[] | undefined {
+            const errors: ErrorObject[] = [];
+            const limit = multiple ? (maxCount ?? Infinity) : 1;
+
+            if (required && !files.length) {
+                errors.push({
+                    keyword: 'required',
+                    instancePath: '',
+                    schemaPath: '#/required',
+                    params: { missingProperty: name },
+                    message: `must have required file '${name}'`,
+                });
+            }
+
+            if (files.length > limit) {
+                errors.push({
+                    keyword: 'maxCount',
+                    instancePath: `/${name}`,
+                    schemaPath: '#/maxCount',
+                    params: { limit },
+                    message: `must not have more than ${limit} files`,
+                });
+            }
+
+            files.forEach(({ mimetype, size }, i) => {
+                const instancePath = multiple ? `/${name}/${i}` : `/${name}`;
+
+                if (mimeTypes && !mimeTypes.some(accepted => matchesMimeType(mimetype, accepted))) {
+                    errors.push({
+                        keyword: 'mimeType',
+                        instancePath,
+                        schemaPath: '#/mimeTypes',
+                        params: { allowedValues: mimeTypes },
+                        message: `must be a file of type ${mimeTypes.join(', ')}`,
+                    });
+                }
+
+                if (maxSize !== undefined && size > maxSize) {
+                    errors.push({
+                        keyword: 'maxSize',
+                        instancePath,
+                        schemaPath: '#/maxSize',
+                        params: { limit: maxSize },
+                        message: `must not be larger than ${maxSize} bytes`,
+                    });
+                }
+            });
+
+            if (errors.length) {
+                throw new AjvValidationException('file', errors, { errorFormatter, name });
+            }
+
+            return multiple ? files : files[0];
+        },
+    };
+}
+
+// documents an uploaded file field of a multipart/form-data request body
+const fileSchema = ({ multiple, maxCount, description }: FileConstraints) =>
+    multiple
+        ? { type: 'array', items: { type: 'string', format: 'binary' }, maxItems: maxCount, description }
+        : { type: 'string', format: 'binary', description };
+
+// in mock mode handlers respond with the generated response once the pipes validating their request ran (see
+// TypeboxTransformInterceptor), keeping the metadata of the decorators applied so far
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const mockableHandler = <T extends (...args: any[]) => unknown>(handler: T): T => {
+    const mockable = function (this: unknown, ...args: unknown[]) {
+        const mockResponse = getMockResponse();
+        return mockResponse ? Promise.resolve().then(mockResponse) : handler.apply(this, args);
+    };
+
+    Object.defineProperty(mockable, 'name', { value: handler.name });
+    for (const metadataKey of Reflect.getOwnMetadataKeys(handler)) {
+        Reflect.defineMetadata(metadataKey, Reflect.getOwnMetadata(metadataKey, handler), mockable);
+    }
+
+    return mockable as T;
+};
+
 export function Validate<
     TRequestSchema extends TSchema,
     TResponseSchema extends TSchema,
-    ResponseValidator extends ResponseValidatorConfig<TResponseSchema>,
+    ResponseValidator extends ResponseValidators<TResponseSchema>,
     RequestValidators extends RequestValidatorConfig<TRequestSchema>[],
+    EventsValidator extends EventsValidators<TSchema> = never,
     MethodDecoratorType extends (
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         ...args: [...RequestConfigsToTypes<TRequestSchema, RequestValidators>, ...any[]]
-    ) => Promise<Static<ResponseValidator['schema']>>,
+    ) => Promise<ResponseConfigToType<ResponseValidator>> | SseResponse<SchemaConfigToType<EventsValidator>> = (
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        ...args: [...RequestConfigsToTypes<TRequestSchema, RequestValidators>, ...any[]]
+    ) => Promise<ResponseConfigToType<ResponseValidator>> | SseResponse<SchemaConfigToType<EventsValidator>>,
 >(
-    validatorConfig: ValidatorConfig<TRequestSchema, TResponseSchema, ResponseValidator, RequestValidators>
+    validatorConfig: ValidatorConfig<TRequestSchema, TResponseSchema, ResponseValidator, RequestValidators, EventsValidator>
 ): MethodDecorator<MethodDecoratorType> {
     return (target, key, descriptor) => {
         let args = Reflect.getMetadata(ROUTE_ARGS_METADATA, target.constructor, key) ?? {};
@@ -150,53 +423,210 @@ export function Validate<
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         extendArrayMetadata(INTERCEPTORS_METADATA, [TypeboxTransformInterceptor], descriptor.value as any);
 
-        const { response: responseValidatorConfig, request: requestValidatorConfigs } = validatorConfig;
+        const {
+            response: responseValidatorConfig,
+            events: eventsValidatorConfig,
+            responseHeaders: responseHeadersSchema,
+            request: requestValidatorConfigs,
+            errorFormatter,
+        } = validatorConfig;
 
         const methodName = capitalize(String(key));
 
         if (responseValidatorConfig) {
-            const validatorConfig: ResponseValidatorConfig<TResponseSchema> = TypeGuard.IsSchema(responseValidatorConfig)
-                ? { schema: responseValidatorConfig }
-                : responseValidatorConfig;
+            const responseValidatorConfigs: [number | undefined, TResponseSchema | ResponseValidatorConfig<TResponseSchema>][] =
+                isResponseValidatorMap(responseValidatorConfig)
+                    ? Object.entries(responseValidatorConfig).map(([responseCode, config]) => [Number(responseCode), config])
+                    : [[undefined, responseValidatorConfig as TResponseSchema | ResponseValidatorConfig<TResponseSchema>]];
+
+            const responseMeta = { ...Reflect.getMetadata(DECORATORS.API_RESPONSE, descriptor.value!) };
+            const responseContentTypes: Record<number, BodyContentType[]> = {};
+
+            for (const [mapResponseCode, responseConfig] of responseValidatorConfigs) {
+                const validatorConfig: ResponseValidatorConfig<TResponseSchema> = TypeGuard.IsSchema(responseConfig)
+                    ? { schema: responseConfig }
+                    : responseConfig;
+
+                const {
+                    responseCode = mapResponseCode ?? 200,
+                    required = true,
+                    name = mapResponseCode === undefined ? `${methodName}Response` : `${methodName}${mapResponseCode}Response`,
+                    contentTypes,
+                    ...config
+                } = validatorConfig;
+
+                const validator = buildSchemaValidator({ errorFormatter, ...config, required, name, type: 'response' });
+
+                responseMeta[responseCode] = { type: validator };
+
+                if (contentTypes) {
+                    responseContentTypes[responseCode] = contentTypes;
+                }
+            }
+
+            Reflect.defineMetadata(DECORATORS.API_RESPONSE, responseMeta, descriptor.value!);
+
+            const producedContentTypes = [...new Set(Object.values(responseContentTypes).flat())];
+
+            if (producedContentTypes.length) {
+                Reflect.defineMetadata(RESPONSE_CONTENT_TYPES_METADATA, responseContentTypes, descriptor.value!);
+                ApiProduces(...producedContentTypes)(target, key, descriptor);
+            }
+        }
 
+        if (eventsValidatorConfig) {
             const {
-                responseCode = 200,
                 required = true,
-                stripUnknownProps = true,
-                name = `${methodName}Response`,
+                name = `${methodName}Event`,
                 ...config
-            } = validatorConfig;
+            }: EventsValidatorConfig<TSchema> = TypeGuard.IsSchema(eventsValidatorConfig)
+                ? { schema: eventsValidatorConfig }
+                : eventsValidatorConfig;
 
-            const validator = buildSchemaValidator({ ...config, required, stripUnknownProps, name, type: 'response' });
+            const validator = buildSchemaValidator({ errorFormatter, ...config, required, name, type: 'response' });
 
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            Reflect.defineMetadata(DECORATORS.API_RESPONSE, { [responseCode]: { type: validator } }, (target as any)[key]);
+            // the stream is documented as the schema of the data of each event
+            const responseMeta = { ...Reflect.getMetadata(DECORATORS.API_RESPONSE, descriptor.value!) };
+            responseMeta[200] = { ...responseMeta[200], type: validator };
+
+            Reflect.defineMetadata(DECORATORS.API_RESPONSE, responseMeta, descriptor.value!);
+            Reflect.defineMetadata(EVENTS_METADATA, validator, descriptor.value!);
+            ApiProduces('text/event-stream')(target, key, descriptor);
+        }
+
+        if (responseHeadersSchema) {
+            if (!TypeGuard.IsObject(responseHeadersSchema)) {
+                throw new Error(`Response headers of "${methodName}" expect a TypeBox object schema.`);
+            }
+
+            const validator = buildSchemaValidator({
+                errorFormatter,
+                type: 'response',
+                name: `${methodName}ResponseHeaders`,
+                schema: responseHeadersSchema,
+                required: true,
+                coerceTypes: true,
+                stripUnknownProps: false,
+            });
+
+            const headers = Object.fromEntries(
+                Object.entries(responseHeadersSchema.properties).map(([name, schema]) => [
+                    name,
+                    { schema, description: schema.description, required: responseHeadersSchema.required?.includes(name) ?? false },
+                ])
+            );
+
+            const responseMeta = { ...Reflect.getMetadata(DECORATORS.API_RESPONSE, descriptor.value!) };
+            const successCodes = Object.keys(responseMeta).filter(code => code.startsWith('2'));
+
+            for (const responseCode of successCodes.length ? successCodes : ['200']) {
+                responseMeta[responseCode] = { ...responseMeta[responseCode], headers };
+            }
+
+            Reflect.defineMetadata(DECORATORS.API_RESPONSE, responseMeta, descriptor.value!);
+            Reflect.defineMetadata(RESPONSE_HEADERS_METADATA, validator, descriptor.value!);
         }
 
+        // properties of the multipart/form-data request body, shared by "form" and "file" validators
+        const multipart = {
+            properties: {} as Obj<SchemaObject>,
+            required: [] as string[],
+            files: [] as FileConstraints[],
+            fileFields: [] as string[],
+        };
+
+        const addMultipartFile = (field: string, constraints: FileConstraints) => {
+            multipart.properties[field] = fileSchema(constraints);
+            multipart.files.push(constraints);
+            multipart.fileFields.push(field);
+            if (constraints.required !== false) {
+                multipart.required.push(field);
+            }
+        };
+
+        // validated request args, in the order of the handler params, for the route contract
+        const requestContracts: RouteRequestContract[] = [];
+
         requestValidatorConfigs?.forEach((validatorConfig, index) => {
             switch (validatorConfig.type) {
                 case 'body': {
-                    const { required = true, name = `${methodName}Body`, pipes = [], ...config } = validatorConfig;
-                    const validator = buildSchemaValidator({ ...config, name, required } as SchemaValidatorConfig<
+                    const { required = true, name = `${methodName}Body`, pipes = [], contentTypes, ...config } = validatorConfig;
+                    const validator = buildSchemaValidator({ errorFormatter, ...config, name, required } as SchemaValidatorConfig<
                         TRequestSchema,
                         TResponseSchema
                     >);
                     const validatorPipe: PipeTransform = { transform: value => validator.validate(value) };
 
-                    args = assignMetadata(args, RouteParamtypes.BODY, index, undefined, ...pipes, validatorPipe);
+                    if (!contentTypes) {
+                        args = assignMetadata(args, RouteParamtypes.BODY, index, undefined, ...pipes, validatorPipe);
+                    } else {
+                        if (contentTypes.includes('application/x-ndjson') && !TypeGuard.IsArray(validator.schema)) {
+                            throw new Error(`Body validator "${name}" accepting NDJSON expects a TypeBox array schema.`);
+                        }
+
+                        const contentTypePipe: PipeTransform = {
+                            transform: async (value: Promise<RequestBody>) => {
+                                const { contentType, body } = await value;
+
+                                if (!contentType && !required) return;
+                                if (!contentTypes.includes(contentType as BodyContentType)) {
+                                    throw new UnsupportedMediaTypeException(
+                                        `Unsupported Content-Type "${contentType}", expected ${contentTypes.join(', ')}`
+                                    );
+                                }
+
+                                switch (contentType as BodyContentType) {
+                                    case 'application/x-www-form-urlencoded':
+                                        return coerceValue(validator.schema, body);
+                                    case 'application/x-ndjson': {
+                                        const { data, error } = parseNdjson(String(body ?? ''));
+                                        if (error) {
+                                            throw new AjvValidationException('body', [error], {
+                                                errorFormatter: config.errorFormatter ?? errorFormatter,
+                                                name,
+                                            });
+                                        }
+                                        return data;
+                                    }
+                                    default:
+                                        return body;
+                                }
+                            },
+                        };
+
+                        args = assignCustomParameterMetadata(
+                            args,
+                            BODY_PARAMTYPE,
+                            index,
+                            extractBody,
+                            undefined,
+                            contentTypePipe,
+                            ...pipes,
+                            validatorPipe
+                        );
+                        ApiConsumes(...contentTypes)(target, key, descriptor);
+                    }
+
                     Reflect.defineMetadata(ROUTE_ARGS_METADATA, args, target.constructor, key);
 
                     // eslint-disable-next-line @typescript-eslint/no-explicit-any
                     ApiBody({ type: validator as any, required })(target, key, descriptor);
+                    requestContracts.push({
+                        index,
+                        type: 'body',
+                        required,
+                        schema: validator.schema,
+                        ...(contentTypes && { contentTypes }),
+                    });
 
                     break;
                 }
 
                 case 'param': {
-                    const { required = true, coerceTypes = true, schema = Type.String(), pipes = [], ...config } = validatorConfig;
+                    const { required = true, schema = Type.String(), pipes = [], ...config } = validatorConfig;
                     const validator = buildSchemaValidator({
+                        errorFormatter,
                         ...config,
-                        coerceTypes,
                         required,
                         schema,
                     } as SchemaValidatorConfig<TRequestSchema, TResponseSchema>);
@@ -204,16 +634,50 @@ export function Validate<
 
                     args = assignMetadata(args, RouteParamtypes.PARAM, index, validatorConfig.name, ...pipes, validatorPipe);
                     Reflect.defineMetadata(ROUTE_ARGS_METADATA, args, target.constructor, key);
-                    ApiParam({ name: validatorConfig.name, schema: validatorConfig.schema, required })(target, key, descriptor);
+                    ApiParam({ name: validatorConfig.name, schema: validator.schema, required })(target, key, descriptor);
+                    requestContracts.push({ index, type: 'param', name: validatorConfig.name, required, schema: validator.schema });
 
                     break;
                 }
 
                 case 'query': {
-                    const { required = false, coerceTypes = true, schema = Type.String(), pipes = [], ...config } = validatorConfig;
+                    if (validatorConfig.name === undefined) {
+                        const { required = true, name = `${methodName}Query`, schema, pipes = [], ...config } = validatorConfig;
+
+                        if (!(isVersionedSchemas(schema) ? Object.values(schema) : [schema]).every(TypeGuard.IsObject)) {
+                            throw new Error(`Query validator "${name}" without a name expects a TypeBox object schema.`);
+                        }
+
+                        const validator = buildSchemaValidator({
+                            errorFormatter,
+                            ...config,
+                            name,
+                            required,
+                            schema,
+                        } as SchemaValidatorConfig<TRequestSchema, TResponseSchema>);
+                        const validatorPipe: PipeTransform = { transform: value => validator.validate(expandQueryKeys(value) as Obj) };
+
+                        args = assignMetadata(args, RouteParamtypes.QUERY, index, undefined, ...pipes, validatorPipe);
+                        Reflect.defineMetadata(ROUTE_ARGS_METADATA, args, target.constructor, key);
+
+                        for (const [prop, propSchema] of Object.entries<TSchema>(validator.schema.properties)) {
+                            ApiQuery({
+                                name: prop,
+                                schema: propSchema,
+                                required: validator.schema.required?.includes(prop) ?? false,
+                                // nested objects are expected in bracket notation, i.e. filter[status]=active
+                                ...(TypeGuard.IsObject(propSchema) && { style: 'deepObject', explode: true }),
+                            })(target, key, descriptor);
+                        }
+                        requestContracts.push({ index, type: 'query', required, schema: validator.schema });
+
+                        break;
+                    }
+
+                    const { required = false, schema = Type.String(), pipes = [], ...config } = validatorConfig;
                     const validator = buildSchemaValidator({
+                        errorFormatter,
                         ...config,
-                        coerceTypes,
                         required,
                         schema,
                     } as SchemaValidatorConfig<TRequestSchema, TResponseSchema>);
@@ -221,15 +685,195 @@ export function Validate<
 
                     args = assignMetadata(args, RouteParamtypes.QUERY, index, validatorConfig.name, ...pipes, validatorPipe);
                     Reflect.defineMetadata(ROUTE_ARGS_METADATA, args, target.constructor, key);
-                    ApiQuery({ name: validatorConfig.name, schema: validatorConfig.schema, required })(target, key, descriptor);
+                    ApiQuery({ name: validatorConfig.name, schema: validator.schema, required })(target, key, descriptor);
+                    requestContracts.push({ index, type: 'query', name: validatorConfig.name, required, schema: validator.schema });
+
+                    break;
+                }
+
+                case 'header': {
+                    const { required = false, schema = Type.String(), pipes = [], ...config } = validatorConfig;
+                    const validator = buildSchemaValidator({
+                        errorFormatter,
+                        ...config,
+                        required,
+                        schema,
+                    } as SchemaValidatorConfig<TRequestSchema, TResponseSchema>);
+                    const validatorPipe: PipeTransform = { transform: value => validator.validate(value) };
+
+                    args = assignCustomParameterMetadata(
+                        args,
+                        HEADER_PARAMTYPE,
+                        index,
+                        extractHeader,
+                        validatorConfig.name,
+                        ...pipes,
+                        validatorPipe
+                    );
+                    Reflect.defineMetadata(ROUTE_ARGS_METADATA, args, target.constructor, key);
+                    ApiHeader({ name: validatorConfig.name, schema: validator.schema, required })(target, key, descriptor);
+                    requestContracts.push({ index, type: 'header', name: validatorConfig.name, required, schema: validator.schema });
+
+                    break;
+                }
+
+                case 'file': {
+                    const { pipes = [], type: _type, name, ...constraints } = validatorConfig;
+                    const validator = buildFileValidator({ errorFormatter, ...constraints, name });
+                    const validatorPipe: PipeTransform = {
+                        transform: ({ files = [] }: MultipartRequest) =>
+                            validator.validate(files.filter(file => file.fieldname === validator.name)),
+                    };
+
+                    args = assignCustomParameterMetadata(
+                        args,
+                        MULTIPART_PARAMTYPE,
+                        index,
+                        extractMultipart,
+                        undefined,
+                        ...pipes,
+                        validatorPipe
+                    );
+                    Reflect.defineMetadata(ROUTE_ARGS_METADATA, args, target.constructor, key);
+                    addMultipartFile(name, constraints);
+
+                    break;
+                }
+
+                case 'form': {
+                    const { required = true, name = `${methodName}Form`, schema, files = {}, pipes = [], ...config } = validatorConfig;
+
+                    if (!(isVersionedSchemas(schema) ? Object.values(schema) : [schema]).every(TypeGuard.IsObject)) {
+                        throw new Error(`Form validator "${name}" expects a TypeBox object schema.`);
+                    }
+
+                    const validator = buildSchemaValidator({
+                        errorFormatter,
+                        ...config,
+                        name,
+                        required,
+                        schema,
+                    } as SchemaValidatorConfig<TRequestSchema, TResponseSchema>);
+                    const fileValidators = Object.entries(files).map(([field, constraints]) =>
+                        buildFileValidator({ errorFormatter: config.errorFormatter ?? errorFormatter, ...constraints, name: field })
+                    );
+
+                    const validatorPipe: PipeTransform = {
+                        transform: ({ body, files = [] }: MultipartRequest) => {
+                            // files of "file" validators of the same handler are expected too
+                            const unexpectedFile = files.find(file => !multipart.fileFields.includes(file.fieldname));
+
+                            if (unexpectedFile) {
+                                throw new AjvValidationException(
+                                    'form',
+                                    [
+                                        {
+                                            keyword: 'additionalProperties',
+                                            instancePath: '',
+                                            schemaPath: '#/additionalProperties',
+                                            params: { additionalProperty: unexpectedFile.fieldname },
+                                            message: 'must NOT have additional properties',
+                                        },
+                                    ],
+                                    { errorFormatter: config.errorFormatter ?? errorFormatter, name }
+                                );
+                            }
+
+                            return {
+                                ...(validator.validate(body ?? {}) as Obj),
+                                ...Object.fromEntries(
+                                    fileValidators.map(fileValidator => [
+                                        fileValidator.name,
+                                        fileValidator.validate(files.filter(file => file.fieldname === fileValidator.name)),
+                                    ])
+                                ),
+                            };
+                        },
+                    };
+
+                    args = assignCustomParameterMetadata(
+                        args,
+                        MULTIPART_PARAMTYPE,
+                        index,
+                        extractMultipart,
+                        undefined,
+                        ...pipes,
+                        validatorPipe
+                    );
+                    Reflect.defineMetadata(ROUTE_ARGS_METADATA, args, target.constructor, key);
+
+                    Object.assign(multipart.properties, validator.schema.properties);
+                    multipart.required.push(...(validator.schema.required ?? []));
+                    for (const [field, constraints] of Object.entries(files)) {
+                        addMultipartFile(field, constraints);
+                    }
                 }
             }
         });
 
+        if (requestContracts.length) {
+            Reflect.defineMetadata(REQUEST_VALIDATORS_METADATA, requestContracts, descriptor.value!);
+        }
+
+        if (Object.keys(multipart.properties).length) {
+            const maxSizes = multipart.files.map(({ maxSize }) => maxSize);
+            const maxCounts = multipart.files.map(({ multiple, maxCount }) => (multiple ? maxCount : 1));
+
+            // files are parsed by multer, with limits derived from the constraints so oversized uploads are rejected early.
+            // One more file than expected is parsed, so the validators report unexpected files and exceeded counts
+            const { AnyFilesInterceptor } = loadPackage('@nestjs/platform-express', 'Validate', () => require('@nestjs/platform-express'));
+            const filesInterceptor = AnyFilesInterceptor({
+                limits: multipart.files.length
+                    ? {
+                          ...(maxSizes.every(maxSize => maxSize !== undefined) && { fileSize: Math.max(...(maxSizes as number[])) }),
+                          ...(maxCounts.every(maxCount => maxCount !== undefined) && {
+                              files: (maxCounts as number[]).reduce((a, b) => a + b, 0) + 1,
+                          }),
+                      }
+                    : {},
+            });
+
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            extendArrayMetadata(INTERCEPTORS_METADATA, [filesInterceptor], descriptor.value as any);
+            ApiConsumes('multipart/form-data')(target, key, descriptor);
+            ApiBody({ schema: { type: 'object', properties: multipart.properties, required: multipart.required } })(
+                target,
+                key,
+                descriptor
+            );
+        }
+
+        descriptor.value = mockableHandler(descriptor.value!);
+
         return descriptor;
     };
 }
 
+// every path param of an endpoint must have a matching param validator, and vice versa
+const assertPathParamValidators = (path?: string, requestValidatorConfigs?: RequestValidatorConfig<TSchema>[]) => {
+    if (!path || !requestValidatorConfigs) return;
+
+    const pathParams = path
+        .split('/')
+        .filter(seg => seg.startsWith(':'))
+        .map(seg => ({ name: seg.replace(/^:(.*)\\?$/, '$1'), required: !seg.endsWith('?') }));
+
+    for (const pathParam of pathParams) {
+        const paramValidator = requestValidatorConfigs.find(v => v.name === pathParam.name);
+        if (!paramValidator) {
+            throw new Error(`Path param "${pathParam.name}" is missing a request validator.`);
+        }
+        if (paramValidator.required === false && pathParam.required === true) {
+            throw new Error(`Optional path param "${pathParam.name}" is required in validator.`);
+        }
+    }
+
+    const missingPathParam = requestValidatorConfigs.find(v => v.type === 'param' && !pathParams.some(p => p.name == v.name));
+    if (missingPathParam) {
+        throw new Error(`Request validator references non-existent path parameter "${missingPathParam.name}".`);
+    }
+};
+
 const nestHttpDecoratorMap = {
     GET: Get,
     POST: Post,
@@ -241,12 +885,12 @@ const nestHttpDecoratorMap = {
 export const HttpEndpoint = <
     TRequestSchema extends TSchema,
     TResponseSchema extends TSchema,
-    ResponseConfig extends Omit<ResponseValidatorConfig<TResponseSchema>, 'responseCode'>,
+    ResponseConfig extends HttpEndpointResponseValidators<TResponseSchema>,
     RequestConfigs extends RequestValidatorConfig<TRequestSchema>[],
     MethodDecoratorType extends (
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         ...args: [...RequestConfigsToTypes<TRequestSchema, RequestConfigs>, ...any[]]
-    ) => Promise<Static<ResponseConfig['schema']>>,
+    ) => Promise<ResponseConfigToType<ResponseConfig>>,
 >(
     config: HttpEndpointDecoratorConfig<TRequestSchema, TResponseSchema, ResponseConfig, RequestConfigs>
 ): MethodDecorator<MethodDecoratorType> => {
@@ -255,30 +899,113 @@ export const HttpEndpoint = <
     const decorators: MethodDecorator[] = [nestHttpDecoratorMap[method](path), HttpCode(responseCode), ApiOperation(apiOperationOptions)];
 
     if (validate) {
-        if (path && validate.request) {
-            const pathParams = path
-                .split('/')
-                .filter(seg => seg.startsWith(':'))
-                .map(seg => ({ name: seg.replace(/^:(.*)\\?$/, '$1'), required: !seg.endsWith('?') }));
-
-            for (const pathParam of pathParams) {
-                const paramValidator = validate.request.find(v => v.name === pathParam.name);
-                if (!paramValidator) {
-                    throw new Error(`Path param "${pathParam.name}" is missing a request validator.`);
-                }
-                if (paramValidator.required === false && pathParam.required === true) {
-                    throw new Error(`Optional path param "${pathParam.name}" is required in validator.`);
-                }
-            }
+        assertPathParamValidators(path, validate.request);
 
-            const missingPathParam = validate.request.find(v => v.type === 'param' && !pathParams.some(p => p.name == v.name));
-            if (missingPathParam) {
-                throw new Error(`Request validator references non-existent path parameter "${missingPathParam.name}".`);
-            }
-        }
+        const { response } = validate;
 
-        decorators.push(Validate(validate));
+        // a single response schema documents/validates the endpoint's own response code
+        if (response && !isResponseValidatorMap(response)) {
+            const responseConfig = TypeGuard.IsSchema(response) ? { schema: response } : response;
+            decorators.push(Validate({ ...validate, response: { ...responseConfig, responseCode } }));
+        } else {
+            decorators.push(Validate(validate));
+        }
     }
 
     return applyDecorators(...decorators);
 };
+
+/**
+ * Server-sent events endpoint, validating (and stripping) the data of every emitted event against the `events` schema.
+ * Handlers return an Observable or async iterable of events.
+ */
+export const SseEndpoint = <
+    TRequestSchema extends TSchema,
+    TEventSchema extends TSchema,
+    EventsConfig extends EventsValidators<TEventSchema>,
+    RequestConfigs extends RequestValidatorConfig<TRequestSchema>[],
+    MethodDecoratorType extends (
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        ...args: [...RequestConfigsToTypes<TRequestSchema, RequestConfigs>, ...any[]]
+    ) => SseResponse<SchemaConfigToType<EventsConfig>>,
+>(
+    config: SseEndpointDecoratorConfig<TRequestSchema, TEventSchema, EventsConfig, RequestConfigs>
+): MethodDecorator<MethodDecoratorType> => {
+    const { path, validate, ...apiOperationOptions } = config;
+
+    assertPathParamValidators(path, validate.request);
+
+    const decorators: MethodDecorator[] = [Sse(path), ApiOperation(apiOperationOptions), Validate(validate)];
+
+    return applyDecorators(...decorators);
+};
+
+/**
+ * Validates the payload and replies of microservice message handlers (`@MessagePattern()`, `@EventPattern()`)
+ * and WebSocket gateway handlers (`@SubscribeMessage()`). The payload is passed as the first argument, other
+ * arguments require their own decorators (i.e. `@Ctx()` or `@ConnectedSocket()`). Validation failures are
+ * thrown as `RpcException`/`WsException`, formatted by the configured error formatter.
+ */
+export function ValidateMessage<
+    TPayloadSchema extends TSchema,
+    TResponseSchema extends TSchema,
+    PayloadConfig extends PayloadValidators<TPayloadSchema>,
+    ResponseConfig extends MessageResponseValidators<TResponseSchema>,
+    MethodDecoratorType extends (
+        payload: SchemaConfigToType<PayloadConfig, unknown>,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        ...args: any[]
+    ) => MessageResponse<SchemaConfigToType<ResponseConfig, unknown>>,
+>(
+    validatorConfig: MessageValidatorConfig<TPayloadSchema, TResponseSchema, PayloadConfig, ResponseConfig>
+): MethodDecorator<MethodDecoratorType> {
+    return (target, key, descriptor) => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        extendArrayMetadata(INTERCEPTORS_METADATA, [TypeboxMessageInterceptor], descriptor.value as any);
+
+        const { payload: payloadValidatorConfig, response: responseValidatorConfig, errorFormatter } = validatorConfig;
+        const methodName = capitalize(String(key));
+
+        if (payloadValidatorConfig) {
+            const {
+                required = true,
+                name = `${methodName}Payload`,
+                pipes = [],
+                ...config
+            }: PayloadValidatorConfig<TSchema> = TypeGuard.IsSchema(payloadValidatorConfig)
+                ? { schema: payloadValidatorConfig }
+                : payloadValidatorConfig;
+
+            const validator = buildSchemaValidator({ errorFormatter, ...config, name, required, type: 'payload' });
+            const validatorPipe: PipeTransform = { transform: value => validator.validate(value) };
+
+            const args = assignCustomParameterMetadata(
+                Reflect.getMetadata(ROUTE_ARGS_METADATA, target.constructor, key) ?? {},
+                MESSAGE_PAYLOAD_PARAMTYPE,
+                0,
+                extractPayload,
+                undefined,
+                ...pipes,
+                validatorPipe
+            );
+            Reflect.defineMetadata(ROUTE_ARGS_METADATA, args, target.constructor, key);
+            Reflect.defineMetadata(MESSAGE_PAYLOAD_METADATA, validator, descriptor.value!);
+        }
+
+        if (responseValidatorConfig) {
+            const {
+                required = true,
+                name = `${methodName}Response`,
+                ...config
+            }: Omit<ResponseValidatorConfig<TSchema>, 'responseCode' | 'contentTypes'> = TypeGuard.IsSchema(responseValidatorConfig)
+                ? { schema: responseValidatorConfig }
+                : responseValidatorConfig;
+
+            const validator = buildSchemaValidator({ errorFormatter, ...config, required, name, type: 'response' });
+
+            Reflect.defineMetadata(MESSAGE_RESPONSE_METADATA, validator, descriptor.value!);
+        }
+
+        return descriptor;
+    };
+}
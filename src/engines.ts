@@ -0,0 +1,135 @@
+import type { TSchema } from '@sinclair/typebox';
+import { TypeCompiler } from '@sinclair/typebox/compiler';
+import { ValueError, ValueErrorType } from '@sinclair/typebox/errors';
+import { ErrorObject } from 'ajv';
+
+import { getAjv, getTypeboxOptions } from './ajv.js';
+import { getPrecompiledValidator } from './aot.js';
+import { applyFormats } from './formats.js';
+import type { Obj, ValidationCheck, ValidationEngine } from './types.js';
+import { collectSchemaIds, embedSchemaReferences } from './util.js';
+
+/**
+ * Validates through the configured Ajv instance (or the precompiled validators), the default engine.
+ */
+export const ajvEngine: ValidationEngine = {
+    name: 'ajv',
+    compile<T>(schema: TSchema, { allErrors, references = [] }: { allErrors: boolean; references?: TSchema[] }): ValidationCheck<T> {
+        // precompiled validators are only generated for the default (first error) mode
+        return (
+            (!allErrors && getPrecompiledValidator<T>(schema)) ||
+            getAjv({ allErrors }).compile<T>(embedSchemaReferences(schema, references))
+        );
+    },
+};
+
+const keywordsByErrorType: Partial<Record<ValueErrorType, string>> = {
+    [ValueErrorType.ArrayContains]: 'contains',
+    [ValueErrorType.ArrayMaxItems]: 'maxItems',
+    [ValueErrorType.ArrayMinItems]: 'minItems',
+    [ValueErrorType.ArrayUniqueItems]: 'uniqueItems',
+    [ValueErrorType.IntegerExclusiveMaximum]: 'exclusiveMaximum',
+    [ValueErrorType.IntegerExclusiveMinimum]: 'exclusiveMinimum',
+    [ValueErrorType.IntegerMaximum]: 'maximum',
+    [ValueErrorType.IntegerMinimum]: 'minimum',
+    [ValueErrorType.IntegerMultipleOf]: 'multipleOf',
+    [ValueErrorType.Literal]: 'const',
+    [ValueErrorType.Not]: 'not',
+    [ValueErrorType.NumberExclusiveMaximum]: 'exclusiveMaximum',
+    [ValueErrorType.NumberExclusiveMinimum]: 'exclusiveMinimum',
+    [ValueErrorType.NumberMaximum]: 'maximum',
+    [ValueErrorType.NumberMinimum]: 'minimum',
+    [ValueErrorType.NumberMultipleOf]: 'multipleOf',
+    [ValueErrorType.ObjectAdditionalProperties]: 'additionalProperties',
+    [ValueErrorType.ObjectMaxProperties]: 'maxProperties',
+    [ValueErrorType.ObjectMinProperties]: 'minProperties',
+    [ValueErrorType.ObjectRequiredProperty]: 'required',
+    [ValueErrorType.StringFormat]: 'format',
+    [ValueErrorType.StringFormatUnknown]: 'format',
+    [ValueErrorType.StringMaxLength]: 'maxLength',
+    [ValueErrorType.StringMinLength]: 'minLength',
+    [ValueErrorType.StringPattern]: 'pattern',
+    [ValueErrorType.TupleLength]: 'maxItems',
+    [ValueErrorType.IntersectUnevaluatedProperties]: 'unevaluatedProperties',
+    [ValueErrorType.Union]: 'anyOf',
+};
+
+const paramsByKeyword: Obj<(schema: TSchema) => Obj> = {
+    const: schema => ({ allowedValue: schema.const }),
+    format: schema => ({ format: schema.format }),
+    maxItems: schema => ({ limit: schema.maxItems }),
+    minItems: schema => ({ limit: schema.minItems }),
+    maxLength: schema => ({ limit: schema.maxLength }),
+    minLength: schema => ({ limit: schema.minLength }),
+    maximum: schema => ({ comparison: '<=', limit: schema.maximum }),
+    minimum: schema => ({ comparison: '>=', limit: schema.minimum }),
+    exclusiveMaximum: schema => ({ comparison: '<', limit: schema.exclusiveMaximum }),
+    exclusiveMinimum: schema => ({ comparison: '>', limit: schema.exclusiveMinimum }),
+    multipleOf: schema => ({ multipleOf: schema.multipleOf }),
+    maxProperties: schema => ({ limit: schema.maxProperties }),
+    minProperties: schema => ({ limit: schema.minProperties }),
+    pattern: schema => ({ pattern: schema.pattern }),
+    type: schema => ({ type: schema.type }),
+};
+
+/**
+ * Normalizes a TypeBox value error into the shape of an Ajv error, so formatters handle both engines.
+ */
+export function toAjvError({ type, schema, path, message }: ValueError): ErrorObject {
+    const keyword = keywordsByErrorType[type] ?? 'type';
+
+    // Ajv reports missing and additional props on the parent object
+    if (keyword === 'required' || keyword === 'additionalProperties') {
+        const segments = path.split('/');
+        const prop = segments.pop() ?? '';
+        return {
+            keyword,
+            instancePath: segments.join('/'),
+            schemaPath: `#/${keyword}`,
+            params: keyword === 'required' ? { missingProperty: prop } : { additionalProperty: prop },
+            message,
+        };
+    }
+
+    return { keyword, instancePath: path, schemaPath: `#/${keyword}`, params: paramsByKeyword[keyword]?.(schema) ?? {}, message };
+}
+
+/**
+ * Validates through the TypeBox `TypeCompiler`, supporting TypeBox only kinds and formats registered with
+ * the TypeBox `FormatRegistry` (including `ajv-formats`). Ajv specific options (i.e. `useDefaults`) don't apply.
+ */
+export const typeboxEngine: ValidationEngine = {
+    name: 'typebox',
+    compile<T>(
+        schema: TSchema,
+        {
+            allErrors,
+            references = [...collectSchemaIds(schema).values()].filter(reference => reference !== schema),
+        }: { allErrors: boolean; references?: TSchema[] }
+    ): ValidationCheck<T> {
+        applyFormats();
+
+        const compiled = TypeCompiler.Compile(schema, references);
+
+        const check: ValidationCheck<T> = (data: unknown): data is T => {
+            if (compiled.Check(data)) {
+                check.errors = null;
+                return true;
+            }
+
+            const errors: ErrorObject[] = [];
+            for (const error of compiled.Errors(data)) {
+                errors.push(toAjvError(error));
+                if (!allErrors) break;
+            }
+            check.errors = errors;
+            return false;
+        };
+
+        return check;
+    },
+};
+
+export function getValidationEngine(engine?: ValidationEngine): ValidationEngine {
+    return engine ?? getTypeboxOptions().engine ?? ajvEngine;
+}
@@ -0,0 +1,55 @@
+import { HttpStatus } from '@nestjs/common';
+import { ErrorObject } from 'ajv';
+
+import type { ValidationErrorContext, ValidationErrorFormatter } from './types.js';
+
+/** Produces the original `{ statusCode, message, errors }` response containing the raw Ajv errors. */
+export const defaultErrorFormatter: ValidationErrorFormatter = ({ type, status, errors, truncated }) => ({
+    statusCode: status,
+    message: `Validation error (${type})`,
+    errors,
+    ...(truncated && { truncated }),
+});
+
+/** Returns a JSON pointer to the offending value, including missing/additional properties. */
+export const getErrorPointer = (error: ErrorObject): string => {
+    const property = error.params.missingProperty ?? error.params.additionalProperty;
+    const pointer =
+        property === undefined ? error.instancePath : `${error.instancePath}/${String(property).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+    return `#${pointer}`;
+};
+
+export const getErrorMessage = (error: ErrorObject): string => {
+    switch (error.keyword) {
+        case 'required':
+            return 'is required';
+        case 'additionalProperties':
+            return 'is not allowed';
+        case 'const':
+            return `must be ${JSON.stringify(error.params.allowedValue)}`;
+        case 'enum':
+            return `must be one of: ${(error.params.allowedValues as unknown[]).map(value => JSON.stringify(value)).join(', ')}`;
+        default:
+            return error.message ?? 'is invalid';
+    }
+};
+
+/**
+ * RFC 7807 (application/problem+json) formatter. Each error references the offending
+ * field with a JSON pointer, relative to the validated value (body, query object, etc.).
+ */
+export const problemDetailsErrorFormatter: ValidationErrorFormatter = Object.assign(
+    ({ type, name, status, errors, truncated }: ValidationErrorContext) => ({
+        type: 'about:blank',
+        title: HttpStatus[status]
+            ?.split('_')
+            .map(word => word.charAt(0) + word.slice(1).toLowerCase())
+            .join(' '),
+        status,
+        detail: `Validation error (${type})`,
+        ...(type === 'body' || type === 'response' ? {} : { parameter: name }),
+        errors: errors.map(error => ({ pointer: getErrorPointer(error), detail: getErrorMessage(error) })),
+        ...(truncated && { truncated }),
+    }),
+    { contentType: 'application/problem+json' }
+);
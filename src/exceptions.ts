@@ -1,29 +1,83 @@
-import { BadRequestException, HttpStatus } from '@nestjs/common';
+import { BadRequestException, HttpException, HttpStatus } from '@nestjs/common';
 import { TSchema } from '@sinclair/typebox/type';
 import { ErrorObject } from 'ajv';
 
-import type { ValidatorType } from './types.js';
+import { getTypeboxOptions } from './ajv.js';
+import { defaultErrorFormatter } from './error-formatters.js';
+import type { ValidationErrorFormatter, ValidatorType } from './types.js';
 
-export class AjvValidationException<TRequestSchema extends TSchema, TResponseSchema extends TSchema> extends BadRequestException {
-    constructor(type: ValidatorType<TRequestSchema, TResponseSchema>, errors: Array<ErrorObject> | null | undefined) {
-        const topLevelErrors: ErrorObject[] = [];
-        const unionPaths: string[] = [];
-
-        if (errors) {
-            for (const error of errors) {
-                // don't deeply traverse union errors to reduce error noise
-                if (unionPaths.some(path => error.instancePath.includes(path))) continue;
-                if (error.keyword === 'oneOf' || error.keyword === 'anyOf') {
-                    unionPaths.push(error.instancePath);
-                }
-                topLevelErrors.push(error);
+/** Drops errors nested beneath a failed union (anyOf/oneOf) to reduce error noise. */
+export function pruneUnionErrors(errors: Array<ErrorObject> | null | undefined): ErrorObject[] {
+    const topLevelErrors: ErrorObject[] = [];
+    const unionPaths: string[] = [];
+
+    if (errors) {
+        for (const error of errors) {
+            // don't deeply traverse union errors to reduce error noise
+            if (unionPaths.some(path => error.instancePath.includes(path))) continue;
+            if (error.keyword === 'oneOf' || error.keyword === 'anyOf') {
+                unionPaths.push(error.instancePath);
             }
+            topLevelErrors.push(error);
         }
+    }
+
+    return topLevelErrors;
+}
+
+export interface AjvValidationExceptionOptions {
+    /** Overrides the globally configured error formatter. */
+    errorFormatter?: ValidationErrorFormatter;
+    /** Name of the failing validator. */
+    name?: string;
+    /** Truncates errors (after pruning) to this length. */
+    maxErrors?: number;
+}
+
+export class AjvValidationException<TRequestSchema extends TSchema, TResponseSchema extends TSchema> extends BadRequestException {
+    readonly errors: ErrorObject[];
+    readonly truncated: boolean;
+    readonly contentType?: string;
+
+    constructor(
+        type: ValidatorType<TRequestSchema, TResponseSchema>,
+        errors: Array<ErrorObject> | null | undefined,
+        { errorFormatter, name, maxErrors = Infinity }: AjvValidationExceptionOptions = {}
+    ) {
+        const topLevelErrors = pruneUnionErrors(errors);
+        const truncated = topLevelErrors.length > maxErrors;
+        const reportedErrors = truncated ? topLevelErrors.slice(0, maxErrors) : topLevelErrors;
+        const formatter = errorFormatter ?? getTypeboxOptions().errorFormatter ?? defaultErrorFormatter;
+
+        super(formatter({ type, name, status: HttpStatus.BAD_REQUEST, errors: reportedErrors, truncated }));
+
+        this.errors = reportedErrors;
+        this.truncated = truncated;
+        this.contentType = formatter.contentType;
+    }
+}
+
+/**
+ * Thrown when a response fails validation. Since this indicates a server bug, the client only
+ * receives a sanitized 500 (or `responseValidationStatus`) error, while the full detail is
+ * kept on the exception for the configured `responseValidationReporter`.
+ */
+export class ResponseValidationException extends HttpException {
+    readonly errors: ErrorObject[];
+
+    /**
+     * @param data The response as it would have been sent, encoded and stripped of unknown props,
+     * `undefined` when encoding failed.
+     */
+    constructor(
+        readonly validatorName: string,
+        errors: Array<ErrorObject> | null | undefined,
+        readonly data?: unknown
+    ) {
+        const status = getTypeboxOptions().responseValidationStatus ?? HttpStatus.INTERNAL_SERVER_ERROR;
+
+        super({ statusCode: status, message: 'Response validation error' }, status);
 
-        super({
-            statusCode: HttpStatus.BAD_REQUEST,
-            message: `Validation error (${type})`,
-            errors: topLevelErrors,
-        });
+        this.errors = pruneUnionErrors(errors);
     }
 }
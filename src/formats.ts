@@ -1,8 +1,105 @@
 import { FormatRegistry } from '@sinclair/typebox';
+import { Format } from 'ajv';
+import { fullFormats } from 'ajv-formats/dist/formats.js';
 
-const emailRegex = /.+\@.+\..+/;
-export const emailFormat = (value: string) => value.match(emailRegex) !== null;
+export type FormatValidator = (value: string) => boolean;
 
+// ISO 3166-1 alpha-2
+const countryCodes = (
+    'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ ' +
+    'CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR ' +
+    'GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP ' +
+    'KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT ' +
+    'MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW ' +
+    'SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG ' +
+    'UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW'
+).split(' ');
+
+// ISO 4217, as supported by the runtime's Intl implementation
+const currencyCodes = Intl.supportedValuesOf('currency');
+
+const isIban = (value: string) => {
+    const iban = value.replace(/ /g, '').toUpperCase();
+    if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+    // move the country code and check digits to the end, convert letters to numbers and check mod 97
+    const digits = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, char => String(char.charCodeAt(0) - 55));
+    let remainder = 0;
+    for (const digit of digits) {
+        remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+    return remainder === 1;
+};
+
+/**
+ * Formats registered with both Ajv and the TypeBox `FormatRegistry` by default. They are regular expressions
+ * or self-contained functions, so they can be emitted into generated standalone validators.
+ */
+export const BUILT_IN_FORMATS: Record<string, FormatValidator | RegExp> = {
+    uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+    ulid: /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i,
+    // phone numbers in E.164 format, i.e. +14155552671
+    e164: /^\+[1-9]\d{1,14}$/,
+    'iso-country': new RegExp(`^(?:${countryCodes.join('|')})$`),
+    'iso-currency': new RegExp(`^(?:${currencyCodes.join('|')})$`),
+    iban: isIban,
+    semver: /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/,
+    cuid2: /^[a-z][0-9a-z]{1,31}$/,
+};
+
+const registeredFormats = new Map<string, FormatValidator>();
+const registeredSources = new Map<string, FormatValidator | RegExp>();
+
+/**
+ * Converts an Ajv format (regex source, RegExp, function or format definition) into a validate function,
+ * async formats are not supported by TypeBox and return `undefined`.
+ */
+export function toFormatValidator(format: Format | FormatValidator): FormatValidator | undefined {
+    // ajv ignores formats defined as `true`
+    if (format === true) return () => true;
+    if (typeof format === 'string') return toFormatValidator(new RegExp(format, 'u'));
+    if (format instanceof RegExp) return value => format.test(value);
+    if (typeof format === 'function') return format as FormatValidator;
+    if (format.async || (format.type && format.type !== 'string')) return;
+    return toFormatValidator(format.validate as Format);
+}
+
+/**
+ * Registers a string format with the TypeBox `FormatRegistry` and every Ajv instance created afterwards.
+ * Register formats before validators are first used, since those compile at most once per configuration.
+ */
+export function registerFormat(name: string, format: FormatValidator | RegExp) {
+    const validate = toFormatValidator(format)!;
+    registeredFormats.set(name, validate);
+    registeredSources.set(name, format);
+    FormatRegistry.Set(name, validate);
+}
+
+export function getFormats(): Record<string, FormatValidator> {
+    return Object.fromEntries(registeredFormats);
+}
+
+/** Formats registered with `registerFormat()`, as they were passed. */
+export function getFormatSources(): Record<string, FormatValidator | RegExp> {
+    return Object.fromEntries(registeredSources);
+}
+
+for (const [name, format] of Object.entries(BUILT_IN_FORMATS)) {
+    registerFormat(name, format);
+}
+
+const emailRegex = fullFormats.email as RegExp;
+export const emailFormat = (value: string) => emailRegex.test(value);
+
+/**
+ * Registers the `ajv-formats` formats (i.e. "email", "date-time") with the TypeBox `FormatRegistry`,
+ * so both validation engines agree. Formats registered through `registerFormat()` take precedence.
+ */
 export const applyFormats = () => {
-    FormatRegistry.Set('email', emailFormat);
+    for (const [name, format] of Object.entries<Format>(fullFormats)) {
+        const validate = toFormatValidator(format);
+        if (validate && !registeredFormats.has(name)) {
+            FormatRegistry.Set(name, validate);
+        }
+    }
 };
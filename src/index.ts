@@ -1,7 +1,18 @@
+export * from './ajv.js';
+export * from './aot.js';
+export * from './asyncapi.js';
+export * from './client.js';
+export * from './content-types.js';
+export * from './contract.js';
 export * from './decorators.js';
+export * from './engines.js';
+export * from './error-formatters.js';
 export * from './exceptions.js';
 export * from './formats.js';
 export * from './interceptors.js';
+export * from './mock.js';
+export * from './module.js';
 export * from './swagger-patch.js';
 export * from './types.js';
 export * from './util.js';
+export * from './versioning.js';
@@ -1,27 +1,308 @@
-import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
-import { Reflector } from '@nestjs/core';
+import {
+    CallHandler,
+    ExecutionContext,
+    HttpException,
+    HttpStatus,
+    Inject,
+    Injectable,
+    Logger,
+    MessageEvent,
+    NestInterceptor,
+    Optional,
+    StreamableFile,
+} from '@nestjs/common';
+import { SSE_METADATA, VERSION_METADATA } from '@nestjs/common/constants.js';
+import { loadPackage } from '@nestjs/common/utils/load-package.util.js';
+import { ApplicationConfig, HttpAdapterHost, Reflector } from '@nestjs/core';
 import { DECORATORS } from '@nestjs/swagger/dist/constants.js';
-import { Observable } from 'rxjs';
-import { map } from 'rxjs/operators';
+import type { TSchema } from '@sinclair/typebox';
+import { from, Observable, of, throwError } from 'rxjs';
+import { catchError, map, mergeMap, tap } from 'rxjs/operators';
 
-import { isSchemaValidator } from './decorators.js';
+import { getTypeboxOptions } from './ajv.js';
+import { DEFAULT_CONTENT_TYPE, negotiateContentType, serializeBody } from './content-types.js';
+import {
+    EVENTS_METADATA,
+    isSchemaValidator,
+    MESSAGE_RESPONSE_METADATA,
+    RESPONSE_CONTENT_TYPES_METADATA,
+    RESPONSE_HEADERS_METADATA,
+} from './decorators.js';
+import { AjvValidationException, ResponseValidationException } from './exceptions.js';
+import { generateExample, runWithMockResponse } from './mock.js';
+import { TYPEBOX_FEATURE_OPTIONS } from './module.js';
+import type { BodyContentType, MockOptions, Obj, ResponseValidationReporter, SchemaValidator, TypeboxFeatureOptions } from './types.js';
+import { removeUnknownProps, resolveSchemaReferences } from './util.js';
+import { resolveRequestVersion, runWithRequestVersion } from './versioning.js';
+
+const logger = new Logger('TypeboxTransformInterceptor');
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+    !!value && typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function';
+
+export const defaultResponseValidationReporter: ResponseValidationReporter = ({ name, handler, statusCode, errors }) => {
+    logger.error(`Response validation failed for ${handler} (${statusCode}, ${name}): ${JSON.stringify(errors)}`);
+};
 
 @Injectable()
 export class TypeboxTransformInterceptor implements NestInterceptor {
-    constructor(private reflector: Reflector) {}
+    constructor(
+        protected reflector: Reflector,
+        @Optional() private adapterHost?: HttpAdapterHost,
+        @Optional() private applicationConfig?: ApplicationConfig,
+        @Optional() @Inject(TYPEBOX_FEATURE_OPTIONS) private featureOptions?: TypeboxFeatureOptions
+    ) {}
+
+    intercept(context: ExecutionContext, handler: CallHandler): Observable<unknown> {
+        const version = this.resolveRequestVersion(context);
+        const responseMeta = this.reflector.get(DECORATORS.API_RESPONSE, context.getHandler()) ?? {};
+        const headersValidator = this.reflector.get(RESPONSE_HEADERS_METADATA, context.getHandler());
+        const contentTypes: Record<number, BodyContentType[]> =
+            this.reflector.get(RESPONSE_CONTENT_TYPES_METADATA, context.getHandler()) ?? {};
+        const sse = this.reflector.get(SSE_METADATA, context.getHandler());
+
+        const mockResponse = sse ? undefined : this.getMockResponse(context, responseMeta);
+        const handled: CallHandler = mockResponse ? { handle: () => runWithMockResponse(mockResponse, () => handler.handle()) } : handler;
+
+        // versioned validators of the request (and its response) select their schema by the request version
+        const next: CallHandler =
+            version === undefined
+                ? handled
+                : {
+                      handle: () =>
+                          new Observable(subscriber => runWithRequestVersion(version, () => handled.handle().subscribe(subscriber))),
+                  };
+
+        if (sse) {
+            return this.interceptEvents(context, next);
+        }
 
-    intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
         return next.handle().pipe(
+            catchError(error => {
+                this.applyErrorContentType(context, error);
+
+                if (!(error instanceof HttpException)) {
+                    return throwError(() => error);
+                }
+
+                const status = error.getStatus();
+                const validator = this.getResponseValidator(responseMeta, status, false);
+
+                if (!validator) {
+                    return throwError(() => error);
+                }
+
+                // the exception itself is rethrown (with the validated body), so filters catching its class still apply
+                const response = this.validateResponse(context, validator, status, error.getResponse());
+                Object.assign(error, { response });
+
+                return throwError(() => error);
+            }),
             map(data => {
-                const responseMeta = this.reflector.get(DECORATORS.API_RESPONSE, context.getHandler()) ?? {};
-                const validator = (responseMeta['200'] || responseMeta['201'] || {})['type'];
+                // streamed files are sent as is
+                if (data instanceof StreamableFile) return data;
 
-                if (!isSchemaValidator(validator)) {
-                    return data;
+                const response = context.switchToHttp().getResponse();
+                const validator = this.getResponseValidator(responseMeta, response.statusCode, true);
+
+                // mocked responses are generated in their encoded form, from the schema they would be validated against
+                if (headersValidator && !mockResponse && String(response.statusCode).startsWith('2')) {
+                    this.validateResponseHeaders(context, headersValidator, response.statusCode, response.getHeaders());
                 }
 
-                return validator.validate(data);
-            })
+                const validated = validator && !mockResponse ? this.validateResponse(context, validator, response.statusCode, data) : data;
+
+                return this.serializeResponse(context, this.getResponseContentTypes(contentTypes, response.statusCode), validated);
+            }),
+            tap({ error: error => this.applyErrorContentType(context, error) })
+        );
+    }
+
+    protected getMockOptions(): MockOptions | undefined {
+        const mock = this.featureOptions?.mock ?? getTypeboxOptions().mock;
+        return mock === true ? {} : mock || undefined;
+    }
+
+    // in mock mode handlers don't run (the pipes validating their request still do), the response is generated
+    // from the schema of the response validator of the status code instead
+    protected getMockResponse(context: ExecutionContext, responseMeta: Obj<Obj>): (() => unknown) | undefined {
+        const mock = this.getMockOptions();
+        if (!mock || context.getType() !== 'http') return;
+
+        const validator = this.getResponseValidator(responseMeta, context.switchToHttp().getResponse().statusCode, true);
+        if (!validator) return;
+
+        return () => generateExample(validator.schema, mock);
+    }
+
+    protected resolveRequestVersion(context: ExecutionContext): string | undefined {
+        const versioning = this.applicationConfig?.getVersioning();
+        if (!versioning || context.getType() !== 'http') return;
+
+        const handlerVersion = this.reflector.getAllAndOverride(VERSION_METADATA, [context.getHandler(), context.getClass()]);
+        return resolveRequestVersion(context.switchToHttp().getRequest(), versioning, handlerVersion);
+    }
+
+    // server-sent events handlers may return an async iterable instead of an Observable,
+    // the data of each event is validated on its own as it's emitted
+    protected interceptEvents(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+        const eventsValidator: SchemaValidator<TSchema, TSchema> | undefined = this.reflector.get(EVENTS_METADATA, context.getHandler());
+
+        return next.handle().pipe(
+            mergeMap(events => (isAsyncIterable(events) ? from(events) : of(events))),
+            map(event => {
+                if (!eventsValidator) return event;
+
+                // like Nest, anything but an object is sent as the data of an event
+                const { data, ...messageEvent }: MessageEvent = event && typeof event === 'object' ? event : { data: event };
+                const statusCode = context.switchToHttp().getResponse().statusCode;
+
+                return { ...messageEvent, data: this.validateResponse(context, eventsValidator, statusCode, data) };
+            }),
+            tap({ error: error => this.applyErrorContentType(context, error) })
+        );
+    }
+
+    // serves the response as the media type accepted by the client, JSON is left to the platform
+    protected serializeResponse(context: ExecutionContext, contentTypes: BodyContentType[] | undefined, data: unknown) {
+        if (!contentTypes?.length) return data;
+
+        const contentType = negotiateContentType(context.switchToHttp().getRequest().headers['accept'], contentTypes);
+        if (contentType === DEFAULT_CONTENT_TYPE) return data;
+
+        this.adapterHost?.httpAdapter.setHeader(context.switchToHttp().getResponse(), 'Content-Type', `${contentType}; charset=utf-8`);
+        return serializeBody(contentType, data);
+    }
+
+    // formatters such as problemDetailsErrorFormatter respond with their own content type
+    protected applyErrorContentType(context: ExecutionContext, error: unknown) {
+        if (error instanceof AjvValidationException && error.contentType && this.adapterHost?.httpAdapter) {
+            this.adapterHost.httpAdapter.setHeader(context.switchToHttp().getResponse(), 'Content-Type', error.contentType);
+        }
+    }
+
+    protected validateResponse(context: ExecutionContext, validator: SchemaValidator<TSchema, TSchema>, statusCode: number, data: unknown) {
+        const { responseValidation = 'enforce', responseValidationReporter = defaultResponseValidationReporter } = getTypeboxOptions();
+
+        // unknown props are kept out of the response in every mode, only the failing check is skipped
+        const stripUnknownProps = (value: unknown) =>
+            removeUnknownProps(validator.schema, value, resolveSchemaReferences(validator.schema, getTypeboxOptions().schemas));
+
+        if (responseValidation === 'off') {
+            return stripUnknownProps(data);
+        }
+
+        try {
+            return validator.validate(data as Obj);
+        } catch (error) {
+            if (!(error instanceof ResponseValidationException)) {
+                throw error;
+            }
+
+            responseValidationReporter({
+                name: error.validatorName,
+                handler: `${context.getClass().name}.${context.getHandler().name}`,
+                statusCode,
+                errors: error.errors,
+                data,
+            });
+
+            if (responseValidation === 'log') {
+                return stripUnknownProps(error.data ?? data);
+            }
+
+            throw error;
+        }
+    }
+
+    protected validateResponseHeaders(
+        context: ExecutionContext,
+        validator: SchemaValidator<TSchema, TSchema>,
+        statusCode: number,
+        outgoingHeaders: Obj
+    ) {
+        const headers = Object.fromEntries(Object.entries(outgoingHeaders).map(([name, value]) => [name.toLowerCase(), value]));
+        const properties: Obj = validator.schema.properties ?? {};
+
+        // header names are case-insensitive, so match them against the casing used by the schema
+        this.validateResponse(
+            context,
+            validator,
+            statusCode,
+            Object.fromEntries(
+                Object.keys(properties)
+                    .filter(name => headers[name.toLowerCase()] !== undefined)
+                    .map(name => [name, headers[name.toLowerCase()]])
+            )
         );
     }
+
+    protected getResponseContentTypes(contentTypes: Record<number, BodyContentType[]>, statusCode: number): BodyContentType[] | undefined {
+        if (contentTypes[statusCode]) return contentTypes[statusCode];
+
+        // same implicit status code fallback as response validators
+        const successContentTypes = Object.entries(contentTypes).filter(([code]) => code.startsWith('2'));
+
+        if (String(statusCode).startsWith('2') && successContentTypes.length === 1) {
+            return successContentTypes[0][1];
+        }
+    }
+
+    protected getResponseValidator(
+        responseMeta: Obj<Obj>,
+        statusCode: number,
+        fallbackToSuccess: boolean
+    ): SchemaValidator<TSchema, TSchema> | undefined {
+        const validator = responseMeta[statusCode]?.['type'];
+
+        if (isSchemaValidator<TSchema, TSchema>(validator)) {
+            return validator;
+        }
+
+        if (!fallbackToSuccess) return;
+
+        // handlers relying on the implicit status code (i.e. 201 for POST) may have
+        // documented their only successful response under a different 2xx code
+        const successValidators = Object.entries(responseMeta)
+            .filter(([code, meta]) => code.startsWith('2') && isSchemaValidator(meta?.['type']))
+            .map(([, meta]) => meta['type']);
+
+        if (String(statusCode).startsWith('2') && successValidators.length === 1) {
+            return successValidators[0] as SchemaValidator<TSchema, TSchema>;
+        }
+    }
+}
+
+/**
+ * Validates the replies of microservice and WebSocket message handlers decorated with `ValidateMessage`,
+ * converting validation failures into the exception of the transport.
+ */
+@Injectable()
+export class TypeboxMessageInterceptor extends TypeboxTransformInterceptor {
+    intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+        const responseValidator: SchemaValidator<TSchema, TSchema> | undefined = this.reflector.get(
+            MESSAGE_RESPONSE_METADATA,
+            context.getHandler()
+        );
+
+        return next.handle().pipe(
+            // messages have no status code, replies are reported as successful responses
+            map(data => (responseValidator ? this.validateResponse(context, responseValidator, HttpStatus.OK, data) : data)),
+            catchError(error => throwError(() => this.toTransportException(context, error)))
+        );
+    }
+
+    protected toTransportException(context: ExecutionContext, error: unknown) {
+        if (!(error instanceof AjvValidationException || error instanceof ResponseValidationException)) {
+            return error;
+        }
+
+        if (context.getType() === 'ws') {
+            const { WsException } = loadPackage('@nestjs/websockets', 'ValidateMessage', () => require('@nestjs/websockets'));
+            return new WsException(error.getResponse());
+        }
+
+        const { RpcException } = loadPackage('@nestjs/microservices', 'ValidateMessage', () => require('@nestjs/microservices'));
+        return new RpcException(error.getResponse());
+    }
 }
@@ -0,0 +1,233 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { StaticEncode, TSchema, TypeGuard } from '@sinclair/typebox/type';
+
+import { getTypeboxOptions } from './ajv.js';
+import type { GenerateExampleOptions, Obj } from './types.js';
+import { isObj, resolveSchemaReferences } from './util.js';
+
+// generates the response of the handler call being mocked
+const mockResponseStorage = new AsyncLocalStorage<() => unknown>();
+
+// past this depth optional props are left out and arrays are as short as allowed, so recursive schemas end
+const MAX_DEPTH = 4;
+
+const WORDS = ['lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit', 'sed', 'do', 'eiusmod', 'tempor'];
+const COUNTRIES = ['US', 'GB', 'DE', 'FR', 'NL', 'JP', 'CA', 'AU'];
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD'];
+const IBANS = ['GB82WEST12345698765432', 'DE89370400440532013000', 'NL91ABNA0417164300', 'FR1420041010050500013M02606'];
+const ULID_CHARS = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+// generated dates fall within 2020-2029
+const BASE_DATE = Date.UTC(2020, 0, 1);
+const DATE_RANGE = Date.UTC(2030, 0, 1) - BASE_DATE;
+
+interface Generator {
+    random: () => number;
+    references: Map<string, TSchema>;
+    useExamples: boolean;
+}
+
+const hashSeed = (seed: number | string): number => {
+    if (typeof seed === 'number') return seed >>> 0;
+
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// mulberry32, small and good enough for example values
+const createRandom = (seed: number | string) => {
+    let state = hashSeed(seed);
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const randomInt = ({ random }: Generator, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+const pick = <T>(generator: Generator, values: readonly T[]): T => values[randomInt(generator, 0, values.length - 1)];
+
+const randomChars = (generator: Generator, chars: string, length: number) =>
+    Array.from({ length }, () => chars[randomInt(generator, 0, chars.length - 1)]).join('');
+
+const randomDate = (generator: Generator) => new Date(BASE_DATE + Math.floor(generator.random() * DATE_RANGE));
+
+const formatGenerators: Obj<(generator: Generator) => string> = {
+    uuid: generator => {
+        const hex = randomChars(generator, '0123456789abcdef', 32);
+        const variant = '89ab'[randomInt(generator, 0, 3)];
+        return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20)}`;
+    },
+    ulid: generator => randomChars(generator, '01234567', 1) + randomChars(generator, ULID_CHARS, 25),
+    cuid2: generator =>
+        randomChars(generator, 'abcdefghijklmnopqrstuvwxyz', 1) + randomChars(generator, '0123456789abcdefghijklmnopqrstuvwxyz', 23),
+    email: generator => `${pick(generator, WORDS)}.${randomInt(generator, 1, 999)}@example.com`,
+    'date-time': generator => randomDate(generator).toISOString(),
+    date: generator => randomDate(generator).toISOString().slice(0, 10),
+    time: generator => `${randomDate(generator).toISOString().slice(11, 19)}Z`,
+    duration: generator => `P${randomInt(generator, 1, 30)}D`,
+    uri: generator => `https://example.com/${pick(generator, WORDS)}`,
+    url: generator => `https://example.com/${pick(generator, WORDS)}`,
+    'uri-reference': generator => `/${pick(generator, WORDS)}`,
+    hostname: generator => `${pick(generator, WORDS)}.example.com`,
+    ipv4: generator => `192.0.2.${randomInt(generator, 1, 254)}`,
+    ipv6: generator => `2001:db8::${randomInt(generator, 1, 0xffff).toString(16)}`,
+    e164: generator => `+1415555${randomChars(generator, '0123456789', 4)}`,
+    'iso-country': generator => pick(generator, COUNTRIES),
+    'iso-currency': generator => pick(generator, CURRENCIES),
+    iban: generator => pick(generator, IBANS),
+    semver: generator => `${randomInt(generator, 0, 9)}.${randomInt(generator, 0, 20)}.${randomInt(generator, 0, 50)}`,
+    byte: generator => Buffer.from(pick(generator, WORDS)).toString('base64'),
+};
+
+const generateString = (generator: Generator, schema: TSchema): string => {
+    const format = typeof schema.format === 'string' ? formatGenerators[schema.format] : undefined;
+    if (format) return format(generator);
+
+    const { minLength = 0, maxLength = Infinity } = schema;
+    let value = Array.from({ length: randomInt(generator, 1, 3) }, () => pick(generator, WORDS)).join(' ');
+
+    while (value.length < minLength) {
+        value += ` ${pick(generator, WORDS)}`;
+    }
+    return value.slice(0, Math.max(minLength, Math.min(maxLength, value.length))).padEnd(minLength, 'x');
+};
+
+const generateNumber = (generator: Generator, schema: TSchema): number => {
+    const integer = schema.type === 'integer';
+    const step = schema.multipleOf ?? (integer ? 1 : undefined);
+
+    let min = schema.minimum ?? schema.exclusiveMinimum ?? (schema.maximum ?? schema.exclusiveMaximum ?? 1000) - 1000;
+    let max = schema.maximum ?? schema.exclusiveMaximum ?? min + 1000;
+
+    if (step) {
+        // the multiples within the range, excluding exclusive bounds
+        const first = Math.ceil(min / step) + (schema.exclusiveMinimum !== undefined && min % step === 0 ? 1 : 0);
+        const last = Math.floor(max / step) - (schema.exclusiveMaximum !== undefined && max % step === 0 ? 1 : 0);
+        return randomInt(generator, first, Math.max(first, last)) * step;
+    }
+
+    if (schema.exclusiveMinimum !== undefined) min += (max - min) / 100;
+    if (schema.exclusiveMaximum !== undefined) max -= (max - min) / 100;
+
+    return Math.round((min + generator.random() * (max - min)) * 100) / 100;
+};
+
+const generateArray = (generator: Generator, schema: TSchema, depth: number): unknown[] => {
+    // tuples
+    if (Array.isArray(schema.items)) {
+        return schema.items.map((item: TSchema) => generate(generator, item, depth + 1));
+    }
+
+    const { minItems = depth < MAX_DEPTH ? 1 : 0, maxItems = Infinity } = schema;
+    const length = Math.min(Math.max(minItems, depth < MAX_DEPTH ? randomInt(generator, 1, 3) : 0), maxItems);
+    const items: unknown[] = [];
+
+    // unique items are retried a few times, small enums may not have enough distinct values
+    for (let attempt = 0; items.length < length && attempt < length * 10; attempt++) {
+        const item = generate(generator, schema.items ?? {}, depth + 1);
+        if (!schema.uniqueItems || !items.some(existing => JSON.stringify(existing) === JSON.stringify(item))) {
+            items.push(item);
+        }
+    }
+
+    return items;
+};
+
+const generateObject = (generator: Generator, schema: TSchema, depth: number): Obj => {
+    const required: string[] = schema.required ?? [];
+
+    return Object.fromEntries(
+        Object.entries<TSchema>(schema.properties ?? {})
+            .filter(([name]) => depth < MAX_DEPTH || required.includes(name))
+            .map(([name, property]) => [name, generate(generator, property, depth + 1)])
+    );
+};
+
+function generate(generator: Generator, schema: TSchema, depth: number): unknown {
+    if (!isObj(schema)) return null;
+
+    if (generator.useExamples) {
+        if (Array.isArray(schema.examples) && schema.examples.length) return structuredClone(schema.examples[0]);
+        if (schema.example !== undefined) return structuredClone(schema.example);
+    }
+
+    if (schema.const !== undefined) return schema.const;
+    if (schema.default !== undefined) return structuredClone(schema.default);
+    if (Array.isArray(schema.enum) && schema.enum.length) return pick(generator, schema.enum);
+
+    if (typeof schema.$ref === 'string') {
+        const reference = generator.references.get(schema.$ref);
+        return reference ? generate(generator, reference, depth) : null;
+    }
+
+    // literal unions pick any member, other unions prefer members other than null
+    const members: TSchema[] | undefined = schema.anyOf ?? schema.oneOf;
+    if (Array.isArray(members) && members.length) {
+        const nonNull = members.filter(member => member.type !== 'null');
+        return generate(generator, pick(generator, nonNull.length ? nonNull : members), depth);
+    }
+
+    if (Array.isArray(schema.allOf)) {
+        const values = schema.allOf.map((member: TSchema) => generate(generator, member, depth));
+        return values.every(isObj) ? Object.assign({}, ...values) : values[0];
+    }
+
+    if (TypeGuard.IsDate(schema)) return randomDate(generator);
+
+    const type = Array.isArray(schema.type) ? (schema.type.find((type: string) => type !== 'null') ?? 'null') : schema.type;
+
+    switch (type) {
+        case 'string':
+            return generateString(generator, schema);
+        case 'number':
+        case 'integer':
+            return generateNumber(generator, schema);
+        case 'boolean':
+            return generator.random() < 0.5;
+        case 'null':
+            return null;
+        case 'array':
+            return generateArray(generator, schema, depth);
+        case 'object':
+            return generateObject(generator, schema, depth);
+        default:
+            // Type.Any() and Type.Unknown()
+            return null;
+    }
+}
+
+/**
+ * Generates a value of a schema as sent over the wire (the encoded side of transforms), i.e. for mocked
+ * responses or test fixtures. The first of the `examples` (or the `example`) of a schema is used when given,
+ * otherwise `const`, `default` and `enum` values, then values generated from the type, format and constraints.
+ * Generated values are deterministic, the same schema and seed always generate the same value.
+ */
+export function generateExample<T extends TSchema>(
+    schema: T,
+    { seed = 1, useExamples = true }: GenerateExampleOptions = {}
+): StaticEncode<T> {
+    const generator: Generator = {
+        random: createRandom(seed),
+        references: resolveSchemaReferences(schema, getTypeboxOptions().schemas),
+        useExamples,
+    };
+    return generate(generator, schema, 0) as StaticEncode<T>;
+}
+
+/** Runs `fn` with handlers of validated endpoints responding with the generated response instead of running. */
+export function runWithMockResponse<T>(generateResponse: () => unknown, fn: () => T): T {
+    return mockResponseStorage.run(generateResponse, fn);
+}
+
+/** Generator of the response of the mocked handler call, if it is mocked. */
+export function getMockResponse(): (() => unknown) | undefined {
+    return mockResponseStorage.getStore();
+}
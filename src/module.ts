@@ -0,0 +1,77 @@
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+import Ajv from 'ajv';
+
+import { configureTypebox } from './ajv.js';
+import type { TypeboxFeatureOptions, TypeboxModuleAsyncOptions, TypeboxModuleOptions, TypeboxOptionsFactory } from './types.js';
+
+export const TYPEBOX_MODULE_OPTIONS = Symbol('TYPEBOX_MODULE_OPTIONS');
+export const TYPEBOX_FEATURE_OPTIONS = Symbol('TYPEBOX_FEATURE_OPTIONS');
+
+// the Ajv instance is owned by the module, but validators are built when decorators are
+// evaluated (long before the module exists), so they resolve it lazily on first use.
+const ajvProvider: Provider = {
+    provide: Ajv,
+    useFactory: (options: TypeboxModuleOptions) => configureTypebox(options),
+    inject: [TYPEBOX_MODULE_OPTIONS],
+};
+
+// forRoot() modules are global, forFeature() modules only apply to the module importing them
+@Module({})
+export class TypeboxModule {
+    static forRoot(options: TypeboxModuleOptions = {}): DynamicModule {
+        return {
+            module: TypeboxModule,
+            global: true,
+            providers: [{ provide: TYPEBOX_MODULE_OPTIONS, useValue: options }, ajvProvider],
+            exports: [TYPEBOX_MODULE_OPTIONS, Ajv],
+        };
+    }
+
+    static forRootAsync(options: TypeboxModuleAsyncOptions): DynamicModule {
+        return {
+            module: TypeboxModule,
+            global: true,
+            imports: options.imports,
+            providers: [...createAsyncProviders(options), ajvProvider],
+            exports: [TYPEBOX_MODULE_OPTIONS, Ajv],
+        };
+    }
+
+    /**
+     * Options of the importing module only, i.e. mocking its controllers. Interceptors are instantiated
+     * per module, so they receive the options of the module declaring the controller.
+     */
+    static forFeature(options: TypeboxFeatureOptions = {}): DynamicModule {
+        return {
+            module: TypeboxModule,
+            providers: [{ provide: TYPEBOX_FEATURE_OPTIONS, useValue: options }],
+            exports: [TYPEBOX_FEATURE_OPTIONS],
+        };
+    }
+}
+
+function createAsyncProviders(options: TypeboxModuleAsyncOptions): Provider[] {
+    if (options.useFactory) {
+        return [{ provide: TYPEBOX_MODULE_OPTIONS, useFactory: options.useFactory, inject: options.inject ?? [] }];
+    }
+
+    const optionsFactory = options.useExisting ?? options.useClass;
+
+    if (!optionsFactory) {
+        throw new Error('TypeboxModule.forRootAsync() expects "useFactory", "useClass" or "useExisting".');
+    }
+
+    const providers: Provider[] = [
+        {
+            provide: TYPEBOX_MODULE_OPTIONS,
+            useFactory: (factory: TypeboxOptionsFactory) => factory.createTypeboxOptions(),
+            inject: [optionsFactory],
+        },
+    ];
+
+    if (options.useClass) {
+        providers.push({ provide: options.useClass, useClass: options.useClass });
+    }
+
+    return providers;
+}
@@ -1,7 +1,11 @@
 import { Type as NestType } from '@nestjs/common';
 import { SchemaObjectFactory } from '@nestjs/swagger/dist/services/schema-object-factory.js';
 
+import { getTypeboxOptions } from './ajv.js';
 import { isSchemaValidator } from './decorators.js';
+import { hoistSchemaIds, resolveSchemaReferences } from './util.js';
+
+const SCHEMAS_REF = '#/components/schemas/';
 
 export function patchNestJsSwagger() {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -23,9 +27,27 @@ export function patchNestJsSwagger() {
             return defaultExplore.apply(this, [type, schemas, schemaRefsStack]);
         }
 
-        schemas[type.name] = type.schema;
+        const addSchema = (name: string, schema: object) => {
+            if (schemas[name] && JSON.stringify(schemas[name]) !== JSON.stringify(schema)) {
+                throw new Error(`Swagger schema "${name}" is declared by different schemas.`);
+            }
+            schemas[name] = schema;
+        };
+
+        // schemas with an $id are declared once under their $id, and referenced wherever they are used
+        const { schema, definitions } = hoistSchemaIds(type.schema, SCHEMAS_REF);
+        // shared schemas referenced without being embedded are declared as well
+        for (const [id, reference] of resolveSchemaReferences(type.schema, getTypeboxOptions().schemas)) {
+            definitions[id] ??= hoistSchemaIds(reference, SCHEMAS_REF, definitions).schema;
+        }
+        for (const [id, definition] of Object.entries(definitions)) {
+            addSchema(id, definition);
+        }
+
+        const name = typeof type.schema.$id === 'string' ? type.schema.$id : type.name;
+        addSchema(name, schema);
 
-        return type.name;
+        return name;
     };
 
     SchemaObjectFactory.prototype.exploreModelSchema = extendedExplore;
@@ -0,0 +1,136 @@
+import type { IncomingMessage } from 'node:http';
+
+import { INestApplication, ModuleMetadata, VersioningOptions } from '@nestjs/common';
+import { loadPackage } from '@nestjs/common/utils/load-package.util.js';
+import type { CustomTransportStrategy, MsPattern, Server as MicroserviceServer } from '@nestjs/microservices';
+import { DocumentBuilder, OpenAPIObject, SwaggerModule } from '@nestjs/swagger';
+import { Test } from '@nestjs/testing';
+import { inject, InjectOptions } from 'light-my-request';
+import { lastValueFrom } from 'rxjs';
+
+import { TypeboxModule } from './module.js';
+import { patchNestJsSwagger } from './swagger-patch.js';
+import type { TypeboxModuleOptions } from './types.js';
+
+const noop = () => {};
+
+export interface TypeboxTestingAppOptions extends ModuleMetadata {
+    /** Options passed to `TypeboxModule.forRoot()`, which always resets the validator configuration. */
+    typebox?: TypeboxModuleOptions;
+    /** Enables versioning of the app, i.e. `{ type: VersioningType.URI }`. */
+    versioning?: VersioningOptions;
+}
+
+export type TypeboxTestingRequest = Pick<InjectOptions, 'method' | 'url' | 'query' | 'headers' | 'payload' | 'cookies'>;
+
+export interface TypeboxTestingResponse {
+    statusCode: number;
+    headers: Record<string, string | string[] | number | undefined>;
+    /** Parsed JSON body, or the raw payload for non-JSON responses. */
+    body: unknown;
+    payload: string;
+}
+
+export interface TypeboxTestingApp {
+    app: INestApplication;
+    /** Dispatches a request to the app in memory, without opening a socket. */
+    request(request: TypeboxTestingRequest): Promise<TypeboxTestingResponse>;
+    /**
+     * Dispatches a microservice message to its `@MessagePattern()`/`@EventPattern()` handler in memory, resolving
+     * the (last) reply or rejecting with the error reply. Requires `@nestjs/microservices`.
+     */
+    sendMessage(pattern: MsPattern, data: unknown): Promise<unknown>;
+    getOpenApiDocument(): OpenAPIObject;
+    close(): Promise<void>;
+}
+
+interface InProcessTransport extends CustomTransportStrategy {
+    dispatch(pattern: MsPattern, data: unknown): Promise<unknown>;
+}
+
+// in-process microservice transport, connected to the app on first use
+const connectInProcessTransport = async (app: INestApplication): Promise<InProcessTransport> => {
+    const { Server } = loadPackage('@nestjs/microservices', 'createTypeboxTestingApp', () => require('@nestjs/microservices')) as {
+        Server: typeof MicroserviceServer;
+    };
+
+    const transport = new (class extends Server implements InProcessTransport {
+        listen(callback: () => void) {
+            callback();
+        }
+
+        close() {}
+
+        async dispatch(pattern: MsPattern, data: unknown) {
+            const handler = this.getHandlerByPattern(this.normalizePattern(pattern));
+            if (!handler) {
+                throw new Error(`No message handler for pattern ${JSON.stringify(pattern)}.`);
+            }
+            return lastValueFrom(this.transformToObservable(await handler(data)), { defaultValue: undefined });
+        }
+    })();
+
+    app.connectMicroservice({ strategy: transport });
+    await app.startAllMicroservices();
+
+    return transport;
+};
+
+/**
+ * Boots an express based NestJS application in memory for asserting request/response
+ * validation and the generated OpenAPI document. Requires `@nestjs/testing`,
+ * `@nestjs/platform-express` and `light-my-request`.
+ */
+export async function createTypeboxTestingApp({
+    typebox,
+    versioning,
+    imports = [],
+    ...metadata
+}: TypeboxTestingAppOptions): Promise<TypeboxTestingApp> {
+    patchNestJsSwagger();
+
+    const moduleRef = await Test.createTestingModule({ ...metadata, imports: [TypeboxModule.forRoot(typebox), ...imports] }).compile();
+    const app = moduleRef.createNestApplication({ logger: false });
+
+    if (versioning) {
+        app.enableVersioning(versioning);
+    }
+
+    // server-sent events tune the socket, which the in-memory socket of light-my-request doesn't implement
+    app.use((req: IncomingMessage, _res: unknown, next: () => void) => {
+        for (const method of ['setKeepAlive', 'setNoDelay', 'setTimeout'] as const) {
+            req.socket[method] ??= noop as never;
+        }
+        next();
+    });
+
+    await app.init();
+
+    let transport: Promise<InProcessTransport> | undefined;
+
+    return {
+        app,
+        async request(request) {
+            const response = await inject(app.getHttpAdapter().getInstance(), request);
+            // application/json and +json types, but not application/x-ndjson
+            const isJson = /[/+]json\b/.test(String(response.headers['content-type']));
+
+            return {
+                statusCode: response.statusCode,
+                headers: response.headers,
+                body: isJson && response.payload ? response.json() : response.payload,
+                payload: response.payload,
+            };
+        },
+        async sendMessage(pattern, data) {
+            transport ??= connectInProcessTransport(app);
+            return (await transport).dispatch(pattern, data);
+        },
+        getOpenApiDocument() {
+            return SwaggerModule.createDocument(app, new DocumentBuilder().build());
+        },
+        close() {
+            return app.close();
+        },
+    };
+}
@@ -1,7 +1,24 @@
-import type { PipeTransform, Type } from '@nestjs/common';
+import type { MessageEvent, ModuleMetadata, PipeTransform, Type } from '@nestjs/common';
 import { ApiOperationOptions } from '@nestjs/swagger';
-import type { Static, TComposite, TOmit, TPartial, TPick, TSchema } from '@sinclair/typebox';
-import { ValidateFunction } from 'ajv';
+import type {
+    Static,
+    StaticDecode,
+    TArray,
+    TComposite,
+    TInteger,
+    TLiteral,
+    TNull,
+    TObject,
+    TOmit,
+    TOptional,
+    TPartial,
+    TPick,
+    TSchema,
+    TString,
+    TUnion,
+} from '@sinclair/typebox';
+import { ErrorObject, Format, Options as AjvOptions, ValidateFunction, Vocabulary } from 'ajv';
+import type { Observable } from 'rxjs';
 
 export type AllKeys<T> = T extends unknown ? Exclude<keyof T, symbol> : never;
 
@@ -18,7 +35,7 @@ export type MethodDecorator<T extends Function = any> = (
 export interface HttpEndpointDecoratorConfig<
     TRequestSchema extends TSchema,
     TResponseSchema extends TSchema,
-    ResponseConfig extends ResponseValidatorConfig<TResponseSchema> = ResponseValidatorConfig<TResponseSchema>,
+    ResponseConfig extends HttpEndpointResponseValidators<TResponseSchema> = HttpEndpointResponseValidators<TResponseSchema>,
     RequestConfigs extends RequestValidatorConfig<TRequestSchema>[] = RequestValidatorConfig<TRequestSchema>[],
 > extends Omit<ApiOperationOptions, 'requestBody' | 'parameters'> {
     method: 'GET' | 'POST' | 'PATCH' | 'DELETE' | 'PUT';
@@ -27,79 +44,518 @@ export interface HttpEndpointDecoratorConfig<
     validate?: ValidatorConfig<TRequestSchema, TResponseSchema, ResponseConfig, RequestConfigs>;
 }
 
+export interface SseEndpointDecoratorConfig<
+    TRequestSchema extends TSchema,
+    TEventSchema extends TSchema,
+    EventsConfig extends EventsValidators<TEventSchema> = EventsValidators<TEventSchema>,
+    RequestConfigs extends RequestValidatorConfig<TRequestSchema>[] = RequestValidatorConfig<TRequestSchema>[],
+> extends Omit<ApiOperationOptions, 'requestBody' | 'parameters'> {
+    path?: string;
+    validate: {
+        events: EventsConfig;
+        errorFormatter?: ValidationErrorFormatter;
+        request?: [...RequestConfigs];
+    };
+}
+
 export interface SchemaValidator<TRequestSchema extends TSchema, TResponseSchema extends TSchema> {
     schema: TRequestSchema | TResponseSchema;
     name: string;
-    check: ValidateFunction<Static<TRequestSchema | TResponseSchema>>;
+    check: ValidationCheck<Static<TRequestSchema | TResponseSchema>>;
     validate(data: Obj | Obj[]): Static<TRequestSchema | TResponseSchema>;
+    /** Validators by API version, of validators configured with versioned schemas. */
+    versions?: Record<string, SchemaValidator<TRequestSchema, TResponseSchema>>;
 }
+
+/** Schemas by API version (i.e. `{ '1': PetV1Schema, '2': PetV2Schema }`), selected by the version of the request. */
+export type VersionedSchemas<TTSchema extends TSchema> = Record<string, TTSchema>;
+
+// the schema of a versioned schemas map, or of a schema
+export type VersionedSchemaToType<Schemas> = Schemas extends TSchema
+    ? StaticDecode<Schemas>
+    : Schemas extends VersionedSchemas<infer TVersionSchema>
+      ? StaticDecode<TVersionSchema>
+      : never;
 export interface ValidatorConfigBase<TTSchema extends TSchema> {
-    schema?: TTSchema;
+    schema?: TTSchema | VersionedSchemas<TTSchema>;
     coerceTypes?: boolean;
     stripUnknownProps?: boolean;
     name?: string;
     required?: boolean;
     pipes?: (PipeTransform | Type<PipeTransform>)[];
+    errorFormatter?: ValidationErrorFormatter;
+    /** Reports up to `maxErrors` errors (instead of only the first) for payloads within budget. */
+    allErrors?: boolean | AllErrorsOptions;
+    /** Overrides the globally configured validation engine. */
+    engine?: ValidationEngine;
 }
 export interface ResponseValidatorConfig<TResponseSchema extends TSchema> extends ValidatorConfigBase<TResponseSchema> {
-    schema: TResponseSchema;
+    schema: TResponseSchema | VersionedSchemas<TResponseSchema>;
     type?: 'response';
     responseCode?: number;
+    /** Media types the response is served as, negotiated through the Accept header. Defaults to JSON. */
+    contentTypes?: BodyContentType[];
     required?: true;
     pipes?: never;
+    allErrors?: never;
 }
 
+/** Validates the `data` of every event emitted by a server-sent events (`@Sse()`) handler. */
+export interface EventsValidatorConfig<TEventSchema extends TSchema> extends ValidatorConfigBase<TEventSchema> {
+    schema: TEventSchema;
+    type?: 'response';
+    required?: true;
+    pipes?: never;
+    allErrors?: never;
+}
+
+export type EventsValidators<TEventSchema extends TSchema> = TEventSchema | EventsValidatorConfig<TEventSchema>;
+
+/** Validates the payload of a microservice message or WebSocket message. */
+export interface PayloadValidatorConfig<TPayloadSchema extends TSchema> extends ValidatorConfigBase<TPayloadSchema> {
+    schema: TPayloadSchema;
+    type?: 'payload';
+}
+
+export type PayloadValidators<TPayloadSchema extends TSchema> = TPayloadSchema | PayloadValidatorConfig<TPayloadSchema>;
+
+export type MessageResponseValidators<TResponseSchema extends TSchema> =
+    TResponseSchema | Omit<ResponseValidatorConfig<TResponseSchema>, 'responseCode' | 'contentTypes'>;
+
+export interface MessageValidatorConfig<
+    TPayloadSchema extends TSchema,
+    TResponseSchema extends TSchema,
+    PayloadConfig extends PayloadValidators<TPayloadSchema>,
+    ResponseConfig extends MessageResponseValidators<TResponseSchema>,
+> {
+    /** Validated and passed as the first argument of the handler. */
+    payload?: PayloadConfig;
+    /** Validated against every reply of the handler. */
+    response?: ResponseConfig;
+    /** Formats validation errors of every validator in this config, overriding the global formatter. */
+    errorFormatter?: ValidationErrorFormatter;
+}
+
+export type ResponseValidatorMap<TResponseSchema extends TSchema> = Record<
+    number,
+    TResponseSchema | Omit<ResponseValidatorConfig<TResponseSchema>, 'responseCode'>
+>;
+
+export type ResponseValidators<TResponseSchema extends TSchema> =
+    TResponseSchema | ResponseValidatorConfig<TResponseSchema> | ResponseValidatorMap<TResponseSchema>;
+
+// the response code of a single response schema is dictated by the endpoint
+export type HttpEndpointResponseValidators<TResponseSchema extends TSchema> =
+    TResponseSchema | Omit<ResponseValidatorConfig<TResponseSchema>, 'responseCode'> | ResponseValidatorMap<TResponseSchema>;
+
 export interface ParamValidatorConfig<TRequestSchema extends TSchema> extends ValidatorConfigBase<TRequestSchema> {
-    schema?: TRequestSchema;
+    schema?: TRequestSchema | VersionedSchemas<TRequestSchema>;
     type: 'param';
     name: string;
     stripUnknownProps?: never;
 }
 
 export interface QueryValidatorConfig<TRequestSchema extends TSchema> extends ValidatorConfigBase<TRequestSchema> {
-    schema?: TRequestSchema;
+    schema?: TRequestSchema | VersionedSchemas<TRequestSchema>;
     type: 'query';
     name: string;
     stripUnknownProps?: never;
 }
 
+/** Validates the entire query object against a TypeBox object schema. */
+export interface QueryObjectValidatorConfig<TRequestSchema extends TSchema> extends ValidatorConfigBase<TRequestSchema> {
+    schema: TRequestSchema | VersionedSchemas<TRequestSchema>;
+    type: 'query';
+    name?: never;
+}
+
+export interface HeaderValidatorConfig<TRequestSchema extends TSchema> extends ValidatorConfigBase<TRequestSchema> {
+    schema?: TRequestSchema | VersionedSchemas<TRequestSchema>;
+    type: 'header';
+    /** Header name, matched case-insensitively. */
+    name: string;
+    stripUnknownProps?: never;
+}
+
+/**
+ * Media types validators can handle. Form bodies are coerced like query params, text bodies are validated
+ * as a string, and NDJSON bodies (one JSON value per line) are validated as an array of their lines.
+ */
+export type BodyContentType = 'application/json' | 'application/x-www-form-urlencoded' | 'text/plain' | 'application/x-ndjson';
+
 export interface BodyValidatorConfig<TRequestSchema extends TSchema> extends ValidatorConfigBase<TRequestSchema> {
-    schema: TRequestSchema;
+    schema: TRequestSchema | VersionedSchemas<TRequestSchema>;
     type: 'body';
+    /** Accepted request media types, others are rejected with a 415. Defaults to JSON (without enforcing it). */
+    contentTypes?: BodyContentType[];
+}
+
+/** A file uploaded as part of a multipart/form-data request, as provided by multer. */
+export interface UploadedFile {
+    fieldname: string;
+    originalname: string;
+    encoding: string;
+    mimetype: string;
+    size: number;
+    /** File contents when using multer's (default) memory storage. */
+    buffer?: Buffer;
+    /** File location when using multer's disk storage. */
+    path?: string;
+}
+
+export interface FileConstraints {
+    /** Accepted mime types, supports wildcards such as "image/*". */
+    mimeTypes?: string[];
+    /** Maximum size of each file in bytes. */
+    maxSize?: number;
+    /** Accepts more than one file, handing the handler an array of files. */
+    multiple?: boolean;
+    /** Maximum number of files when `multiple`. */
+    maxCount?: number;
+    required?: boolean;
+    description?: string;
+}
+
+/** Validates the files uploaded under the field `name` of a multipart/form-data request. */
+export interface FileValidatorConfig extends FileConstraints {
+    type: 'file';
+    name: string;
+    schema?: never;
+    pipes?: (PipeTransform | Type<PipeTransform>)[];
+    errorFormatter?: ValidationErrorFormatter;
+}
+
+/** Validates the text fields of a multipart/form-data request against a TypeBox object schema, along with its files. */
+export interface FormValidatorConfig<TRequestSchema extends TSchema> extends ValidatorConfigBase<TRequestSchema> {
+    schema: TRequestSchema | VersionedSchemas<TRequestSchema>;
+    type: 'form';
+    files?: Record<string, FileConstraints>;
 }
 
 export type RequestValidatorConfig<TRequestSchema extends TSchema> =
     | ParamValidatorConfig<TRequestSchema>
     | QueryValidatorConfig<TRequestSchema>
-    | BodyValidatorConfig<TRequestSchema>;
+    | QueryObjectValidatorConfig<TRequestSchema>
+    | HeaderValidatorConfig<TRequestSchema>
+    | BodyValidatorConfig<TRequestSchema>
+    | FileValidatorConfig
+    | FormValidatorConfig<TRequestSchema>;
 export type SchemaValidatorConfig<TRequestSchema extends TSchema, TResponseSchema extends TSchema> =
-    | RequestValidatorConfig<TRequestSchema>
+    | Exclude<RequestValidatorConfig<TRequestSchema>, FileValidatorConfig>
+    | PayloadValidatorConfig<TRequestSchema>
     | ResponseValidatorConfig<TResponseSchema>;
 
 export type ValidatorType<TRequestSchema extends TSchema, TResponseSchema extends TSchema> = NonNullable<
-    SchemaValidatorConfig<TRequestSchema, TResponseSchema>['type']
+    (RequestValidatorConfig<TRequestSchema> | PayloadValidatorConfig<TRequestSchema> | ResponseValidatorConfig<TResponseSchema>)['type']
 >;
 
 export interface ValidatorConfig<
     TRequestSchema extends TSchema,
     TResponseSchema extends TSchema,
-    ResponseConfig extends ResponseValidatorConfig<TResponseSchema>,
+    ResponseConfig extends ResponseValidators<TResponseSchema>,
     RequestConfigs extends RequestValidatorConfig<TRequestSchema>[],
+    EventsConfig extends EventsValidators<TSchema> = EventsValidators<TSchema>,
 > {
-    response?: TResponseSchema | ResponseConfig;
+    response?: ResponseConfig;
+    /** Validates (and strips) the data of each server-sent event, documented as a `text/event-stream` response. */
+    events?: EventsConfig;
+    /** Formats validation errors of every validator in this config, overriding the global formatter. */
+    errorFormatter?: ValidationErrorFormatter;
+    /** Validated against the outgoing headers of successful responses (case-insensitive). */
+    responseHeaders?: TObject;
     request?: [...RequestConfigs];
 }
 
+export type FileConstraintsToType<Constraints extends FileConstraints> = Constraints['multiple'] extends true
+    ? UploadedFile[]
+    : Constraints['required'] extends false
+      ? UploadedFile | undefined
+      : UploadedFile;
+
 export type RequestConfigsToTypes<TRequestSchema extends TSchema, RequestConfigs extends RequestValidatorConfig<TRequestSchema>[]> = {
-    [K in keyof RequestConfigs]: RequestConfigs[K]['required'] extends false
-        ? RequestConfigs[K]['schema'] extends TSchema
-            ? Static<RequestConfigs[K]['schema']> | undefined
-            : string | undefined
-        : RequestConfigs[K]['schema'] extends TSchema
-          ? Static<RequestConfigs[K]['schema']>
-          : string;
+    [K in keyof RequestConfigs]: RequestConfigs[K] extends FileValidatorConfig
+        ? FileConstraintsToType<RequestConfigs[K]>
+        : RequestConfigs[K] extends { type: 'form'; schema: infer TFormSchema extends TSchema }
+          ? StaticDecode<TFormSchema> & {
+                [F in keyof RequestConfigs[K]['files']]: FileConstraintsToType<NonNullable<RequestConfigs[K]['files']>[F]>;
+            }
+          : RequestConfigs[K]['required'] extends false
+            ? RequestConfigs[K]['schema'] extends undefined
+                ? string | undefined
+                : VersionedSchemaToType<RequestConfigs[K]['schema']> | undefined
+            : RequestConfigs[K]['schema'] extends undefined
+              ? string
+              : VersionedSchemaToType<RequestConfigs[K]['schema']>;
 };
 
+// handlers only return successful (2xx) responses, error responses are thrown.
+// Responses are encoded by the validator, so handlers return the decoded type
+export type ResponseConfigToType<ResponseConfig> = ResponseConfig extends TSchema
+    ? StaticDecode<ResponseConfig>
+    : ResponseConfig extends { schema: infer Schemas }
+      ? VersionedSchemaToType<Schemas>
+      : {
+            [K in keyof ResponseConfig]: `${K & number}` extends `2${string}` ? ResponseConfigToType<ResponseConfig[K]> : never;
+        }[keyof ResponseConfig];
+
+/** A server-sent event, as emitted by `@Sse()` handlers, with typed data. */
+export type SseEvent<T> = Omit<MessageEvent, 'data'> & { data: T };
+
+export type SseResponse<T> = Observable<SseEvent<T>> | AsyncIterable<SseEvent<T>>;
+
+// the decoded type of a validator given as a schema or as a config with a schema
+export type SchemaConfigToType<Config, Fallback = never> = Config extends TSchema
+    ? StaticDecode<Config>
+    : Config extends { schema: infer TConfigSchema extends TSchema }
+      ? StaticDecode<TConfigSchema>
+      : Fallback;
+
+/** Replies of message handlers, which may be sync, async or streamed. */
+export type MessageResponse<T> = T | Promise<T> | Observable<T>;
+
 export type TPartialSome<TTSchema extends TSchema, K extends PropertyKey[]> = TComposite<
     [TOmit<TTSchema, K>, TPartial<TPick<TTSchema, K>>]
 >;
+
+export type PaginationMode = 'offset' | 'cursor';
+
+export interface PaginatedOptions<M extends PaginationMode> {
+    /** Offset pages report the `total` number of items, cursor pages the `nextCursor` (null on the last page). */
+    mode?: M;
+}
+
+export type TPaginated<T extends TSchema, M extends PaginationMode> = TObject<
+    M extends 'cursor' ? { items: TArray<T>; nextCursor: TUnion<[TString, TNull]> } : { items: TArray<T>; total: TInteger }
+>;
+
+export interface ListQueryOptions<M extends PaginationMode, S extends string, F extends string> extends PaginatedOptions<M> {
+    /** Props the list can be sorted by, i.e. `?sort=name,-createdAt` (descending when prefixed with "-"). */
+    sortable?: readonly S[];
+    /** Props the list can be filtered by, i.e. `?filter[status]=active`. */
+    filterable?: readonly F[];
+    /** Defaults to 20. */
+    defaultLimit?: number;
+    /** Defaults to 100. */
+    maxLimit?: number;
+}
+
+export type TListQuery<T extends TObject, M extends PaginationMode, S extends string, F extends keyof T['properties']> = TObject<
+    { limit: TOptional<TInteger> } & (M extends 'cursor' ? { cursor: TOptional<TString> } : { offset: TOptional<TInteger> }) &
+        ([S] extends [never] ? unknown : { sort: TOptional<TArray<TUnion<TLiteral<S | `-${S}`>[]>>> }) &
+        ([F] extends [never] ? unknown : { filter: TOptional<TObject<{ [K in F]: TOptional<T['properties'][K]> }>> })
+>;
+
+export interface AllErrorsOptions {
+    /** Maximum number of errors reported, the rest are truncated. */
+    maxErrors?: number;
+    /** Payloads containing longer arrays are rejected before validation. */
+    maxArrayLength?: number;
+    /** Payloads nested deeper are rejected before validation. */
+    maxDepth?: number;
+}
+
+export interface ValidatorDefaults {
+    coerceTypes?: boolean;
+    stripUnknownProps?: boolean;
+    allErrors?: boolean | AllErrorsOptions;
+}
+
+export interface TypeboxModuleOptions {
+    /** Merged over the default Ajv options. */
+    ajvOptions?: AjvOptions;
+    /** Additional formats registered after `ajv-formats` and `registerFormat()` formats, with both engines. */
+    formats?: Record<string, Format>;
+    /** Additional keywords registered alongside "transform" and "example". */
+    keywords?: Vocabulary;
+    /** Overrides the default `coerceTypes`/`stripUnknownProps` behavior per validator type. */
+    defaults?: Partial<Record<ValidatorType<TSchema, TSchema>, ValidatorDefaults>>;
+    /** Formats validation errors, defaults to `defaultErrorFormatter`. */
+    errorFormatter?: ValidationErrorFormatter;
+    /**
+     * "enforce" (default) fails invalid responses, "log" reports them but sends them, and "off" skips
+     * checking responses. Unknown props are stripped from responses in every mode.
+     */
+    responseValidation?: ResponseValidationMode;
+    /** Status code of responses failing validation, defaults to 500. */
+    responseValidationStatus?: number;
+    /** Receives the full detail of response validation failures, defaults to logging them. */
+    responseValidationReporter?: ResponseValidationReporter;
+    /**
+     * Validate functions generated ahead of time by `generateStandaloneValidators()`, used instead of
+     * compiling at runtime. Must be generated with the same Ajv options, formats and keywords.
+     */
+    precompiled?: PrecompiledValidators;
+    /** Engine compiling the schemas of every validator, defaults to `ajvEngine`. */
+    engine?: ValidationEngine;
+    /**
+     * Shared schemas declaring an `$id`, resolving the `Type.Ref()`s of validators (and documented as OpenAPI
+     * components) that don't embed the schema they reference.
+     */
+    schemas?: TSchema[];
+    /** Mocks the responses of every module, unless overridden with `TypeboxModule.forFeature()`. */
+    mock?: boolean | MockOptions;
+}
+
+export interface GenerateExampleOptions {
+    /** Seed of the generated values, the same schema and seed always generate the same value. Defaults to 1. */
+    seed?: number | string;
+    /** Uses the `examples` (or `example`) of schemas when given, defaults to true. */
+    useExamples?: boolean;
+}
+
+export type MockOptions = GenerateExampleOptions;
+
+export interface TypeboxFeatureOptions {
+    /**
+     * Handlers of the module's controllers respond with an example generated from their success response
+     * schema instead of running, once their request passed validation. Handlers without a response schema
+     * (and server-sent events) still run.
+     */
+    mock?: boolean | MockOptions;
+}
+
+/** Checks data against a schema, leaving Ajv style errors of the last failed check on `errors`. */
+export interface ValidationCheck<T = unknown> {
+    (data: unknown): data is T;
+    errors?: ErrorObject[] | null;
+}
+
+export interface ValidationEngine {
+    /** Identifies the engine, validators compile once per engine. */
+    name: string;
+    /** `references` are the schemas with an `$id` the schema may reference, embedded or shared. */
+    compile<T>(schema: TSchema, options: { allErrors: boolean; references?: TSchema[] }): ValidationCheck<T>;
+}
+
+export type PrecompiledValidators = Record<string, ValidateFunction>;
+
+export interface StandaloneValidatorsOptions {
+    /** Options the validators are compiled with, should match the options passed to `TypeboxModule`. */
+    typebox?: TypeboxModuleOptions;
+    /** Schemas to compile, defaults to the schemas of every validator built so far. */
+    schemas?: TSchema[];
+    /** Module (resolvable from the generated file) exporting the custom formats, merged over `ajv-formats`. */
+    formatsModule?: string;
+}
+
+export interface MessageHandlerMetadata {
+    /** The channel of the handler, its (serialized) message pattern or WebSocket message name. */
+    address: string;
+    operationId: string;
+    /** Message patterns expect a reply, events don't, WebSocket messages may reply with an acknowledgement. */
+    type: 'message' | 'event' | 'ws';
+    /** Name of the handler, used to name its message when the payload isn't validated. */
+    methodName: string;
+    payload?: SchemaValidator<TSchema, TSchema>;
+    response?: SchemaValidator<TSchema, TSchema>;
+}
+
+export interface AsyncApiDocumentOptions {
+    /** Defaults to "3.0.0", the 2.x document (2.6.0) describes replies with an `x-reply` extension. */
+    asyncapi?: '2.6.0' | '3.0.0';
+    info: { title: string; version: string; description?: string };
+    servers?: Obj<Obj>;
+    defaultContentType?: string;
+}
+
+export interface AsyncApiDocument {
+    asyncapi: string;
+    info: AsyncApiDocumentOptions['info'];
+    servers?: Obj<Obj>;
+    defaultContentType: string;
+    channels: Obj<Obj>;
+    operations?: Obj<Obj>;
+    components: { messages: Obj<Obj>; schemas: Obj<Obj> };
+}
+
+export type HttpMethod = HttpEndpointDecoratorConfig<TSchema, TSchema>['method'];
+
+export interface RouteRequestContract {
+    /** Index of the handler param (and client call argument) validated. */
+    index: number;
+    type: 'body' | 'param' | 'query' | 'header';
+    /** Name of the param, query or header, query validators without a name validate the whole query. */
+    name?: string;
+    required: boolean;
+    schema: TSchema;
+    contentTypes?: BodyContentType[];
+}
+
+export interface RouteContract {
+    method: HttpMethod;
+    /** Path of the route including the controller path, i.e. "/pets/:id". */
+    path: string;
+    request: RouteRequestContract[];
+    /** Response schemas by status code. */
+    responses: Record<number, TSchema>;
+}
+
+/** Serializable description of the validated routes of controllers, keyed by handler name. */
+export interface ApiContract {
+    routes: Obj<RouteContract>;
+}
+
+export interface ApiClientOptions {
+    /** Base URL including the global prefix of the app, i.e. "https://api.example.com/v1". */
+    baseUrl: string;
+    /** Defaults to the global fetch. */
+    fetch?: typeof fetch;
+    /** Headers sent with every request, i.e. authorization. */
+    headers?: Record<string, string>;
+    /** Validates request args and/or responses against the contract schemas before sending/returning them, defaults to false. */
+    validate?: boolean | { request?: boolean; response?: boolean };
+}
+
+/** Client methods mirroring the async handlers of a controller, called with the handler's (validated) args. */
+export type ApiClient<TController> = {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    [K in keyof TController as TController[K] extends (...args: any[]) => Promise<unknown> ? K : never]: TController[K] extends (
+        ...args: infer Args
+    ) => Promise<infer Result>
+        ? (...args: Args) => Promise<Result>
+        : never;
+};
+
+export interface ValidationErrorContext {
+    type: ValidatorType<TSchema, TSchema>;
+    /** Name of the failing validator (i.e. the param, query or header name). */
+    name?: string;
+    status: number;
+    /** Ajv errors, with errors nested beneath failed unions pruned. */
+    errors: ErrorObject[];
+    /** Whether errors were truncated to `maxErrors` in bounded all errors mode. */
+    truncated: boolean;
+}
+
+export interface ValidationErrorFormatter {
+    (context: ValidationErrorContext): string | Obj;
+    /** Content-Type of the formatted error response, defaults to application/json. */
+    contentType?: string;
+}
+
+export type ResponseValidationMode = 'enforce' | 'log' | 'off';
+
+export interface ResponseValidationReport {
+    /** Name of the failing validator, i.e. "GetPetResponse". */
+    name: string;
+    /** "Controller.method" of the handler that produced the response. */
+    handler: string;
+    statusCode: number;
+    errors: ErrorObject[];
+    data: unknown;
+}
+
+export type ResponseValidationReporter = (report: ResponseValidationReport) => void;
+
+export interface TypeboxOptionsFactory {
+    createTypeboxOptions(): Promise<TypeboxModuleOptions> | TypeboxModuleOptions;
+}
+
+export interface TypeboxModuleAsyncOptions extends Pick<ModuleMetadata, 'imports'> {
+    useExisting?: Type<TypeboxOptionsFactory>;
+    useClass?: Type<TypeboxOptionsFactory>;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    useFactory?: (...args: any[]) => Promise<TypeboxModuleOptions> | TypeboxModuleOptions;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    inject?: any[];
+}
@@ -1,6 +1,17 @@
 import { SchemaOptions, Static, TLiteral, TObject, TPropertyKey, TSchema, TUnion, Type } from '@sinclair/typebox/type';
+import { ErrorObject } from 'ajv';
 
-import { AllKeys, Obj, TPartialSome } from './types.js';
+import {
+    AllErrorsOptions,
+    AllKeys,
+    ListQueryOptions,
+    Obj,
+    PaginatedOptions,
+    PaginationMode,
+    TListQuery,
+    TPaginated,
+    TPartialSome,
+} from './types.js';
 
 export const coerceToNumber = (val: unknown, integer?: boolean): unknown => {
     switch (typeof val) {
@@ -23,22 +34,450 @@ export const coerceToNumber = (val: unknown, integer?: boolean): unknown => {
     return val;
 };
 
+export const coerceToBoolean = (val: unknown): unknown => {
+    switch (val) {
+        case 'true':
+        case '1':
+        case 1:
+            return true;
+        case 'false':
+        case '0':
+        case '':
+        case 0:
+            return false;
+        default:
+            return val;
+    }
+};
+
+export const coerceToNull = (val: unknown): unknown => (val === '' || val === 'null' ? null : val);
+
 export const coerceType = (type: string, val: unknown): unknown => {
     switch (type) {
         case 'number':
         case 'integer':
             return coerceToNumber(val, type === 'integer');
+        case 'boolean':
+            return coerceToBoolean(val);
+        case 'null':
+            return coerceToNull(val);
         default:
             return val;
     }
 };
 
+const matchesType = (type: unknown, val: unknown): boolean => {
+    switch (type) {
+        case 'string':
+        case 'number':
+        case 'boolean':
+            return typeof val === type;
+        case 'integer':
+            return Number.isInteger(val);
+        case 'null':
+            return val === null;
+        case 'array':
+            return Array.isArray(val);
+        case 'object':
+            return isObj(val) && !Array.isArray(val);
+        default:
+            return false;
+    }
+};
+
+const matchesSchema = (schema: TSchema, val: unknown) =>
+    matchesType(schema.type, val) && (schema.const === undefined || schema.const === val);
+
+// union members are tried from the most to the least specific type, since i.e. any numeric string is a valid string too
+const COERCION_PRIORITY = ['null', 'boolean', 'integer', 'number', 'array', 'object'];
+
+const getUnionMembers = (schema: TSchema): TSchema[] | undefined => {
+    if (Array.isArray(schema.anyOf ?? schema.oneOf)) return schema.anyOf ?? schema.oneOf;
+    if (Array.isArray(schema.type)) return schema.type.map((type: string) => ({ ...schema, type }));
+};
+
+/**
+ * Coerces string encoded values (params, query, headers, form fields) into the types described by
+ * the JSON schema: numbers, booleans, nulls, arrays (comma separated or repeated keys), nested objects
+ * and union members. Values that can't be coerced are returned as is, to be reported by the validator.
+ */
+export const coerceValue = (schema: TSchema, val: unknown): unknown => {
+    if (val === undefined || !isObj(schema)) return val;
+
+    const members = getUnionMembers(schema);
+    if (members) {
+        const match = members.find(member => matchesSchema(member, val));
+        if (match) return coerceValue(match, val);
+
+        const candidates = members
+            .filter(member => COERCION_PRIORITY.includes(member.type))
+            .sort((a, b) => COERCION_PRIORITY.indexOf(a.type) - COERCION_PRIORITY.indexOf(b.type));
+
+        for (const member of candidates) {
+            const coerced = coerceValue(member, val);
+            if (matchesSchema(member, coerced)) return coerced;
+        }
+        return val;
+    }
+
+    if (Array.isArray(schema.allOf)) {
+        return schema.allOf.reduce((coerced: unknown, member: TSchema) => coerceValue(member, coerced), val);
+    }
+
+    switch (schema.type) {
+        case 'array': {
+            const arr = Array.isArray(val) ? val : typeof val === 'string' ? (val === '' ? [] : val.split(',')) : [val];
+            // tuples are described by an array of item schemas
+            return arr.map((item, i) => coerceValue(Array.isArray(schema.items) ? schema.items[i] : schema.items, item));
+        }
+        case 'object': {
+            if (!isObj(val) || Array.isArray(val)) return val;
+
+            const properties: Obj<TSchema> = schema.properties ?? {};
+            const coerced: Obj = {};
+            for (const [prop, value] of Object.entries(val)) {
+                const propSchema = properties[prop] ?? (isObj(schema.additionalProperties) ? schema.additionalProperties : undefined);
+                coerced[prop] = propSchema ? coerceValue(propSchema, value) : value;
+            }
+            return coerced;
+        }
+        default:
+            return typeof schema.type === 'string' ? coerceType(schema.type, val) : val;
+    }
+};
+
+/**
+ * Returns every sub schema declaring an `$id`, so local `$ref`s (i.e. of `Type.Recursive()`) can be resolved.
+ */
+export const collectSchemaIds = (schema: unknown, ids: Map<string, TSchema> = new Map()): Map<string, TSchema> => {
+    if (!isObj(schema)) return ids;
+
+    if (typeof schema.$id === 'string' && !ids.has(schema.$id)) {
+        ids.set(schema.$id, schema as TSchema);
+    }
+
+    for (const value of Object.values(schema)) {
+        collectSchemaIds(value, ids);
+    }
+
+    return ids;
+};
+
+const collectSchemaRefs = (schema: unknown, refs: Set<string> = new Set()): Set<string> => {
+    if (!isObj(schema)) return refs;
+
+    if (typeof schema.$ref === 'string') {
+        refs.add(schema.$ref);
+    }
+
+    for (const value of Object.values(schema)) {
+        collectSchemaRefs(value, refs);
+    }
+
+    return refs;
+};
+
+/**
+ * Returns every schema with an `$id` a schema may reference: its own sub schemas (see `collectSchemaIds()`) and the
+ * shared `schemas` (i.e. of `TypeboxModule`) it references, directly or through other shared schemas. Throws for
+ * `$ref`s resolving to neither.
+ */
+export const resolveSchemaReferences = (schema: TSchema, schemas: TSchema[] = []): Map<string, TSchema> => {
+    const shared = new Map(schemas.filter(({ $id }) => typeof $id === 'string').map(shared => [shared.$id as string, shared]));
+    const references = collectSchemaIds(schema);
+    const pending: TSchema[] = [schema];
+
+    for (let current = pending.pop(); current; current = pending.pop()) {
+        for (const ref of collectSchemaRefs(current)) {
+            // local JSON pointers (i.e. "#/$defs/pet") resolve within the schema itself
+            const id = ref.split('#')[0];
+            if (!id || references.has(id)) continue;
+
+            const reference = shared.get(id);
+            if (!reference) {
+                throw new Error(`Unable to resolve $ref "${ref}": no schema with $id "${id}" is embedded or registered with "schemas".`);
+            }
+
+            collectSchemaIds(reference, references);
+            pending.push(reference);
+        }
+    }
+
+    return references;
+};
+
+/**
+ * Embeds the referenced schemas missing from a schema under `$defs`, for validators resolving `$ref`s
+ * from the schema itself (i.e. Ajv).
+ */
+export const embedSchemaReferences = (schema: TSchema, references: TSchema[]): TSchema => {
+    const embedded = collectSchemaIds(schema);
+    const definitions: Obj<TSchema> = {};
+
+    for (const reference of references) {
+        if (typeof reference.$id !== 'string' || embedded.has(reference.$id)) continue;
+
+        definitions[reference.$id] = reference;
+        // sub schemas of the reference are embedded along with it
+        collectSchemaIds(reference, embedded);
+    }
+
+    return Object.keys(definitions).length ? { ...schema, $defs: { ...schema.$defs, ...definitions } } : schema;
+};
+
+/**
+ * Copies a schema for a components section of an API document (i.e. "#/components/schemas/"): sub schemas
+ * declaring an `$id` are moved into `definitions` and replaced by a `$ref`, and `$ref`s by `$id` (i.e. of
+ * `Type.Ref()`) are prefixed. `$id`s are dropped, since they would change the base of the prefixed `$ref`s.
+ */
+export const hoistSchemaIds = (schema: TSchema, refPrefix: string, definitions: Obj<Obj> = {}): { schema: Obj; definitions: Obj<Obj> } => {
+    const copy = (value: unknown, root = false): unknown => {
+        if (Array.isArray(value)) return value.map(item => copy(item));
+        if (!isObj(value)) return value;
+
+        const { $id, $ref, ...rest } = value;
+
+        if (typeof $id === 'string' && !root) {
+            if (!definitions[$id]) {
+                // registered before copying, for schemas referencing themselves
+                definitions[$id] = {};
+                definitions[$id] = copy(value, true) as Obj;
+            }
+            return { $ref: `${refPrefix}${$id}` };
+        }
+
+        const result: Obj = Object.fromEntries(Object.entries(rest).map(([key, item]) => [key, copy(item)]));
+        if (typeof $ref === 'string') {
+            result.$ref = $ref.startsWith('#') ? $ref : `${refPrefix}${$ref}`;
+        }
+        return result;
+    };
+
+    return { schema: copy(schema, true) as Obj, definitions };
+};
+
+const resolveRef = (schema: TSchema, references: Map<string, TSchema>): TSchema | undefined =>
+    typeof schema.$ref === 'string' ? references.get(schema.$ref) : schema;
+
+// a loose structural check (types, consts, enums and required props) used to pick union branches,
+// formats and constraints are left to the validator.
+const matchesShape = (schema: TSchema | undefined, val: unknown, references: Map<string, TSchema>): boolean => {
+    const resolved = schema && resolveRef(schema, references);
+    if (!resolved) return false;
+
+    const members = getUnionMembers(resolved);
+    if (members) return members.some(member => matchesShape(member, val, references));
+    if (Array.isArray(resolved.allOf)) return resolved.allOf.every((member: TSchema) => matchesShape(member, val, references));
+
+    if (resolved.const !== undefined && resolved.const !== val) return false;
+    if (Array.isArray(resolved.enum) && !resolved.enum.includes(val)) return false;
+    if (resolved.type !== undefined && !matchesType(resolved.type, val)) return false;
+
+    if (isObj(val) && !Array.isArray(val) && resolved.type === 'object') {
+        const properties: Obj<TSchema> = resolved.properties ?? {};
+        const required: string[] = resolved.required ?? [];
+        return (
+            required.every(prop => val[prop] !== undefined) &&
+            Object.entries(properties).every(
+                ([prop, propSchema]) => val[prop] === undefined || matchesShape(propSchema, val[prop], references)
+            )
+        );
+    }
+
+    if (Array.isArray(val) && resolved.type === 'array') {
+        return val.every((item, i) =>
+            matchesShape(Array.isArray(resolved.items) ? resolved.items[i] : (resolved.items ?? {}), item, references)
+        );
+    }
+
+    return true;
+};
+
+const countKnownProps = (schema: TSchema, val: unknown, references: Map<string, TSchema>): number =>
+    isObj(val)
+        ? getObjectSchemas(schema, val, references).reduce(
+              (count, { properties = {} }) => count + Object.keys(properties).filter(prop => prop in val).length,
+              0
+          )
+        : 0;
+
+// picks the union branch matching the value, preferring the one that knows most of its props
+const pickUnionMember = (members: TSchema[], val: unknown, references: Map<string, TSchema>): TSchema | undefined => {
+    let best: TSchema | undefined;
+    let bestCount = -1;
+
+    for (const member of members) {
+        if (!matchesShape(member, val, references)) continue;
+
+        const count = countKnownProps(member, val, references);
+        if (count > bestCount) {
+            best = member;
+            bestCount = count;
+        }
+    }
+
+    return best;
+};
+
+// the object schemas (after resolving refs, union branches and intersections) describing the value
+const getObjectSchemas = (schema: TSchema | undefined, val: unknown, references: Map<string, TSchema>): TSchema[] => {
+    const resolved = schema && resolveRef(schema, references);
+    if (!resolved) return [];
+
+    const members = getUnionMembers(resolved);
+    if (members) {
+        const member = pickUnionMember(members, val, references);
+        // when no branch matches, the props known to any branch are kept
+        return member ? getObjectSchemas(member, val, references) : members.flatMap(member => getObjectSchemas(member, val, references));
+    }
+    if (Array.isArray(resolved.allOf)) return resolved.allOf.flatMap((member: TSchema) => getObjectSchemas(member, val, references));
+
+    return resolved.type === 'object' ? [resolved] : [];
+};
+
+/**
+ * Removes props not described by the schema, following nested objects, array items, `$ref`s
+ * and union branches (only the props of the branch matching the value are kept, or the props known
+ * to any branch when none matches).
+ */
+export const removeUnknownProps = (schema: TSchema, val: unknown, references: Map<string, TSchema> = collectSchemaIds(schema)): unknown => {
+    const resolved = resolveRef(schema, references);
+    if (!resolved || !isObj(val)) return val;
+
+    const members = getUnionMembers(resolved);
+    const member = members && pickUnionMember(members, val, references);
+    if (member) return removeUnknownProps(member, val, references);
+
+    if (Array.isArray(val)) {
+        // items of mismatched unions are stripped against the items of any array branch
+        const items = members
+            ? {
+                  anyOf: members
+                      .map(member => resolveRef(member, references)?.items)
+                      .filter(items => isObj(items) && !Array.isArray(items)),
+              }
+            : resolved.items;
+        if (!items) return val;
+        return val.map((item, i) => {
+            const itemSchema = Array.isArray(items) ? items[i] : items;
+            return itemSchema ? removeUnknownProps(itemSchema, item, references) : item;
+        });
+    }
+
+    const objectSchemas = getObjectSchemas(resolved, val, references);
+    if (!objectSchemas.length) return val;
+
+    const stripped: Obj = {};
+    for (const [prop, value] of Object.entries(val)) {
+        const propSchema = findPropSchema(objectSchemas, prop);
+        if (propSchema === true) {
+            stripped[prop] = value;
+        } else if (propSchema) {
+            stripped[prop] = removeUnknownProps(propSchema, value, references);
+        }
+    }
+    return stripped;
+};
+
+const findPropSchema = (objectSchemas: TSchema[], prop: string): TSchema | true | undefined => {
+    for (const { properties } of objectSchemas) {
+        if (properties?.[prop]) return properties[prop];
+    }
+    for (const { patternProperties } of objectSchemas) {
+        for (const [pattern, schema] of Object.entries<TSchema>(patternProperties ?? {})) {
+            if (new RegExp(pattern).test(prop)) return schema;
+        }
+    }
+    for (const { additionalProperties } of objectSchemas) {
+        if (additionalProperties === true || isObj(additionalProperties)) return additionalProperties as TSchema | true;
+    }
+};
+
 export const capitalize = <S extends string>(str: S): Capitalize<S> => {
     return (str.charAt(0).toUpperCase() + str.slice(1)) as Capitalize<S>;
 };
 
 export const isObj = (obj: unknown): obj is Obj => obj !== null && typeof obj === 'object';
 
+/**
+ * Returns an error for the first array longer than `maxArrayLength`, or value nested deeper
+ * than `maxDepth`. Traversal stops at `maxDepth`, so it is safe to run on untrusted payloads.
+ */
+export const checkPayloadBudget = (
+    data: unknown,
+    { maxArrayLength, maxDepth }: Required<Omit<AllErrorsOptions, 'maxErrors'>>,
+    instancePath = '',
+    depth = 0
+): ErrorObject | undefined => {
+    if (!isObj(data)) return;
+
+    if (depth >= maxDepth) {
+        return {
+            keyword: 'maxDepth',
+            instancePath,
+            schemaPath: '#',
+            params: { limit: maxDepth },
+            message: `must not be nested deeper than ${maxDepth} levels`,
+        };
+    }
+
+    if (Array.isArray(data) && data.length > maxArrayLength) {
+        return {
+            keyword: 'maxArrayLength',
+            instancePath,
+            schemaPath: '#',
+            params: { limit: maxArrayLength },
+            message: `must not have more than ${maxArrayLength} items`,
+        };
+    }
+
+    for (const [key, value] of Object.entries(data)) {
+        const error = checkPayloadBudget(value, { maxArrayLength, maxDepth }, `${instancePath}/${key}`, depth + 1);
+        if (error) return error;
+    }
+};
+
+/**
+ * Expands bracket notation query keys (i.e. `filter[status]=a`, `ids[]=1`) into nested objects/arrays,
+ * for query parsers that don't (fastify, express 5). Repeated keys are expected to already be arrays.
+ */
+export const expandQueryKeys = (query: unknown): unknown => {
+    if (!isObj(query)) return query;
+
+    const expanded: Obj = {};
+
+    for (const [key, value] of Object.entries(query)) {
+        const match = key.match(/^([^[\]]+)((?:\[[^[\]]*\])+)$/);
+
+        if (!match) {
+            expanded[key] = value;
+            continue;
+        }
+
+        const path = [match[1], ...Array.from(match[2].matchAll(/\[([^[\]]*)\]/g), ([, segment]) => segment)];
+        let parent: Obj = expanded;
+
+        for (let i = 0; i < path.length - 1; i++) {
+            const segment = path[i];
+            if (path[i + 1] === '') {
+                // trailing "[]" appends the value(s) to an array
+                const arr = Array.isArray(parent[segment]) ? (parent[segment] as unknown[]) : [];
+                parent[segment] = arr.concat(value);
+                break;
+            }
+            if (!isObj(parent[segment]) || Array.isArray(parent[segment])) {
+                parent[segment] = {};
+            }
+            parent = parent[segment] as Obj;
+            if (i === path.length - 2) {
+                parent[path[i + 1]] = value;
+            }
+        }
+    }
+
+    return expanded;
+};
+
 export type TUnionOfString<T extends string[], Acc extends TSchema[] = []> = T extends [infer L extends string, ...infer R extends string[]]
     ? TUnionOfString<R, [...Acc, TLiteral<L>]>
     : Acc;
@@ -72,6 +511,56 @@ export const MaybeArray = <T extends TSchema>(schema: T, options?: SchemaOptions
 export const Nullable = <T extends TSchema>(schema: T, options?: SchemaOptions) =>
     Type.Optional(Type.Union([schema, Type.Null()], options));
 
+/**
+ * Response envelope of a page of items, `{ items, total }` in offset mode (default) or `{ items, nextCursor }` in cursor mode.
+ */
+export const Paginated = <T extends TSchema, M extends PaginationMode = 'offset'>(
+    itemSchema: T,
+    { mode = 'offset' as M }: PaginatedOptions<M> = {},
+    options?: SchemaOptions
+): TPaginated<T, M> => {
+    const items = Type.Array(itemSchema);
+    return (
+        mode === 'cursor'
+            ? Type.Object({ items, nextCursor: Type.Union([Type.String(), Type.Null()]) }, options)
+            : Type.Object({ items, total: Type.Integer({ minimum: 0 }) }, options)
+    ) as never;
+};
+
+/**
+ * Query schema of a list endpoint, derived from the item schema: `limit`, `offset` or `cursor` (by mode),
+ * `sort` by the sortable props and a `filter` object of the filterable props, typed like the item props.
+ */
+export const ListQuery = <
+    T extends TObject,
+    M extends PaginationMode = 'offset',
+    S extends Extract<keyof T['properties'], string> = never,
+    F extends Extract<keyof T['properties'], string> = never,
+>(
+    itemSchema: T,
+    { mode = 'offset' as M, sortable = [], filterable = [], defaultLimit = 20, maxLimit = 100 }: ListQueryOptions<M, S, F> = {},
+    options?: SchemaOptions
+): TListQuery<T, M, S, F> => {
+    const properties: Obj<TSchema> = {
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: maxLimit, default: defaultLimit })),
+        ...(mode === 'cursor'
+            ? { cursor: Type.Optional(Type.String()) }
+            : { offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })) }),
+    };
+
+    if (sortable.length) {
+        const sortKeys = sortable.flatMap(key => [key, `-${key}`]);
+        properties.sort = Type.Optional(Type.Array(LiteralUnion(sortKeys)));
+    }
+
+    if (filterable.length) {
+        const filters = Object.fromEntries(filterable.map(key => [key, Type.Optional(itemSchema.properties[key])]));
+        properties.filter = Type.Optional(Type.Object(filters));
+    }
+
+    return Type.Object(properties, options) as never;
+};
+
 /*
 Current issue with Type.KeyOf() + Generics
 export const SchemaOverride = <S extends TObject, T extends TObject>(schema: S, overrides: T, options?: ObjectOptions) => {
@@ -0,0 +1,161 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { type INestApplication, RequestMethod, type VersioningOptions, VersioningType } from '@nestjs/common';
+import { METHOD_METADATA, VERSION_METADATA } from '@nestjs/common/constants.js';
+import { ApplicationConfig, MetadataScanner, ModulesContainer } from '@nestjs/core';
+import { type OpenAPIObject, SwaggerModule } from '@nestjs/swagger';
+import type { SwaggerDocumentOptions } from '@nestjs/swagger/dist/interfaces/swagger-document-options.interface.js';
+
+import type { Obj } from './types.js';
+
+interface VersionedRequest {
+    url?: string;
+    headers: Obj<string | string[] | undefined>;
+}
+
+const requestVersionStorage = new AsyncLocalStorage<string>();
+
+// version of the OpenAPI document being generated by createVersionedOpenApiDocuments()
+let documentVersion: string | undefined;
+
+// VERSION_NEUTRAL is a symbol, served for every version
+const toVersions = (version: unknown): string[] | undefined => {
+    const versions = (Array.isArray(version) ? version : [version]).filter((v): v is string => typeof v === 'string');
+    return versions.length ? versions : undefined;
+};
+
+const getVersionPrefix = (versioning: VersioningOptions) =>
+    versioning.type === VersioningType.URI && versioning.prefix !== false ? (versioning.prefix ?? 'v') : '';
+
+/**
+ * Resolves the version of a request the way Nest routes it for the versioning options of the app, preferring
+ * the versions of the handler (its `@Version()`) when a request asks for several. Falls back to the `defaultVersion`.
+ */
+export function resolveRequestVersion(req: VersionedRequest, versioning: VersioningOptions, handlerVersion?: unknown): string | undefined {
+    const versions = toVersions(handlerVersion) ?? toVersions(versioning.defaultVersion) ?? [];
+    const pick = (requested: unknown) => {
+        const candidates = (Array.isArray(requested) ? requested : [requested]).filter((v): v is string => typeof v === 'string' && !!v);
+        return candidates.find(v => versions.includes(v)) ?? candidates[0];
+    };
+
+    let version: string | undefined;
+
+    switch (versioning.type) {
+        case VersioningType.URI: {
+            const prefix = getVersionPrefix(versioning);
+            const segments = (req.url ?? '').split('?')[0].split('/');
+            version = versions.find(v => segments.includes(`${prefix}${v}`));
+            break;
+        }
+        case VersioningType.HEADER:
+            version = pick(req.headers[versioning.header.toLowerCase()]);
+            break;
+        case VersioningType.MEDIA_TYPE: {
+            // i.e. "Accept: application/json;v=2", with key "v="
+            const accept = req.headers['accept'];
+            version = pick((typeof accept === 'string' ? accept : '').split(';')[1]?.split(versioning.key)[1]?.trim());
+            break;
+        }
+        case VersioningType.CUSTOM:
+            version = pick(versioning.extractor(req));
+    }
+
+    return version ?? pick(toVersions(versioning.defaultVersion));
+}
+
+/** Runs `fn` with the version validators of versioned schemas select their schema by. */
+export function runWithRequestVersion<T>(version: string, fn: () => T): T {
+    return requestVersionStorage.run(version, fn);
+}
+
+/** Version of the request being handled, or of the OpenAPI document being generated. */
+export function getRequestVersion(): string | undefined {
+    return requestVersionStorage.getStore() ?? documentVersion;
+}
+
+/**
+ * Generates an OpenAPI document per version of the app's versioned routes, keyed by version. Each document
+ * lists the routes serving its version, documented with the schemas of that version of versioned validators.
+ * Requires versioning to be enabled with `app.enableVersioning()`.
+ */
+export function createVersionedOpenApiDocuments(
+    app: INestApplication,
+    config: Omit<OpenAPIObject, 'paths'>,
+    options: SwaggerDocumentOptions = {}
+): Record<string, OpenAPIObject> {
+    const versioning = app.get(ApplicationConfig).getVersioning();
+    if (!versioning) {
+        throw new Error('Versioned OpenAPI documents require versioning, enable it with app.enableVersioning().');
+    }
+
+    const scanner = new MetadataScanner();
+    const handlerVersions = new Map<string, string[] | undefined>();
+    const versions = new Set(toVersions(versioning.defaultVersion));
+
+    for (const { controllers } of app.get(ModulesContainer).values()) {
+        for (const { metatype } of controllers.values()) {
+            if (!metatype) continue;
+
+            for (const methodName of scanner.getAllMethodNames(metatype.prototype)) {
+                const handler = metatype.prototype[methodName];
+                if (RequestMethod[Reflect.getMetadata(METHOD_METADATA, handler)] === undefined) continue;
+
+                const version = toVersions(
+                    Reflect.getMetadata(VERSION_METADATA, handler) ??
+                        Reflect.getMetadata(VERSION_METADATA, metatype) ??
+                        versioning.defaultVersion
+                );
+                handlerVersions.set(`${metatype.name}_${methodName}`, version);
+                version?.forEach(v => versions.add(v));
+            }
+        }
+    }
+
+    const prefix = getVersionPrefix(versioning);
+    const documents: Record<string, OpenAPIObject> = {};
+
+    for (const version of versions) {
+        const handlerKeys = new Map<string, string>();
+        const operationIdFactory = (controllerKey: string, methodKey: string, pathVersion?: string) => {
+            const operationId = options.operationIdFactory?.(controllerKey, methodKey, pathVersion) ?? `${controllerKey}_${methodKey}`;
+            handlerKeys.set(operationId, `${controllerKey}_${methodKey}`);
+            return operationId;
+        };
+
+        let document: OpenAPIObject;
+        try {
+            documentVersion = version;
+            document = SwaggerModule.createDocument(
+                app,
+                { ...config, info: { ...config.info, version } },
+                { ...options, operationIdFactory }
+            );
+        } finally {
+            documentVersion = undefined;
+        }
+
+        for (const [path, pathItem] of Object.entries(document.paths)) {
+            // URI versions are routed by path, the other versioning types by the versions of the handler
+            const pathVersion = [...versions].find(v => path.split('/').includes(`${prefix}${v}`));
+            if (pathVersion !== undefined && pathVersion !== version) {
+                delete document.paths[path];
+                continue;
+            }
+
+            for (const [method, operation] of Object.entries(pathItem)) {
+                const operationVersions = handlerVersions.get(handlerKeys.get(operation?.operationId) ?? '');
+                if (operationVersions && !operationVersions.includes(version)) {
+                    delete (pathItem as Obj)[method];
+                }
+            }
+
+            if (!Object.keys(pathItem).length) {
+                delete document.paths[path];
+            }
+        }
+
+        documents[version] = document;
+    }
+
+    return documents;
+}
@@ -0,0 +1,82 @@
+import { Type } from '@sinclair/typebox';
+import { ValidateFunction } from 'ajv';
+
+import { configureTypebox } from '../src/ajv.js';
+import { generateStandaloneValidators, getRegisteredSchemas, getSchemaKey } from '../src/aot.js';
+import { buildSchemaValidator } from '../src/decorators.js';
+import { AjvValidationException } from '../src/exceptions.js';
+import { registerFormat } from '../src/formats.js';
+import type { PrecompiledValidators } from '../src/types.js';
+
+const loadModule = (code: string): PrecompiledValidators => {
+    const module = { exports: {} as PrecompiledValidators };
+    new Function('module', 'exports', 'require', code)(module, module.exports, require);
+    return module.exports;
+};
+
+describe('generateStandaloneValidators', () => {
+    const PetSchema = Type.Object({ id: Type.Integer(), email: Type.String({ format: 'email' }) });
+
+    beforeEach(() => configureTypebox());
+
+    it('registers the schemas of built validators', () => {
+        buildSchemaValidator({ type: 'body', name: 'Body', schema: PetSchema });
+        expect(getRegisteredSchemas()).toContain(PetSchema);
+    });
+
+    it('keys schemas by their content', () => {
+        expect(getSchemaKey(PetSchema)).toBe(getSchemaKey(Type.Object({ id: Type.Integer(), email: Type.String({ format: 'email' }) })));
+        expect(getSchemaKey(PetSchema)).not.toBe(getSchemaKey(Type.Object({ id: Type.Integer() })));
+    });
+
+    it('generates a module of validate functions', () => {
+        const validators = loadModule(generateStandaloneValidators({ schemas: [PetSchema] }));
+        const validate = validators[getSchemaKey(PetSchema)];
+
+        expect(validate({ id: 1, email: 'a@b.co' })).toBe(true);
+        expect(validate({ id: 1, email: 'nope' })).toBe(false);
+        expect(validate.errors?.[0]).toMatchObject({ instancePath: '/email', keyword: 'format' });
+    });
+
+    it('emits built-in, registered and module formats into the generated module', () => {
+        registerFormat('tenant-id', /^t_\d+$/);
+        const AccountSchema = Type.Object({
+            country: Type.String({ format: 'iso-country' }),
+            iban: Type.String({ format: 'iban' }),
+            tenant: Type.String({ format: 'tenant-id' }),
+            region: Type.String({ format: 'region' }),
+        });
+
+        const code = generateStandaloneValidators({ schemas: [AccountSchema], typebox: { formats: { region: '^[a-z]{2}-[a-z]+$' } } });
+        expect(code).not.toContain('nestjs-typebox');
+
+        const validate = loadModule(code)[getSchemaKey(AccountSchema)];
+        const account = { country: 'NL', iban: 'GB82WEST12345698765432', tenant: 't_1', region: 'eu-west' };
+
+        expect(validate(account)).toBe(true);
+        expect(validate({ ...account, country: 'XX' })).toBe(false);
+        expect(validate({ ...account, iban: 'GB82WEST12345698765433' })).toBe(false);
+        expect(validate({ ...account, tenant: 'x' })).toBe(false);
+        expect(validate({ ...account, region: 'EU' })).toBe(false);
+    });
+
+    it('requires a formats module for function formats', () => {
+        registerFormat('even', value => value.length % 2 === 0);
+        const schema = Type.String({ format: 'even' });
+
+        expect(() => generateStandaloneValidators({ schemas: [schema] })).toThrow(
+            'Format "even" can\'t be emitted into standalone validators, export it from a "formatsModule".'
+        );
+        expect(generateStandaloneValidators({ schemas: [schema], formatsModule: './formats' })).toContain('require("./formats")');
+    });
+
+    it('is used instead of compiling at runtime', () => {
+        const validate = jest.fn(() => false) as unknown as ValidateFunction;
+        configureTypebox({ precompiled: { [getSchemaKey(PetSchema)]: validate } });
+
+        const validator = buildSchemaValidator({ type: 'body', name: 'Body', schema: PetSchema });
+
+        expect(() => validator.validate({ id: 1, email: 'a@b.co' })).toThrow(AjvValidationException);
+        expect(validate).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,149 @@
+import { Controller } from '@nestjs/common';
+import { EventPattern, MessagePattern } from '@nestjs/microservices';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SubscribeMessage, WebSocketGateway } from '@nestjs/websockets';
+import { Type } from '@sinclair/typebox';
+import { inject } from 'light-my-request';
+
+import { createAsyncApiDocument, getMessageHandlers, setupAsyncApi } from '../src/asyncapi.js';
+import { ValidateMessage } from '../src/decorators.js';
+
+const OwnerSchema = Type.Object({ name: Type.String() }, { $id: 'Owner' });
+const PetSchema = Type.Object({ id: Type.Integer(), name: Type.String(), owner: OwnerSchema }, { $id: 'Pet' });
+
+@Controller()
+class PetMessagesController {
+    @MessagePattern('pets.create')
+    @ValidateMessage({ payload: Type.Object({ name: Type.String(), owner: OwnerSchema }), response: PetSchema })
+    async createPet() {
+        return {} as never;
+    }
+
+    @MessagePattern({ cmd: 'get', entity: 'pet' })
+    @ValidateMessage({ payload: Type.Integer(), response: PetSchema })
+    async getPet() {
+        return {} as never;
+    }
+
+    @EventPattern('pets.created')
+    @ValidateMessage({ payload: PetSchema })
+    async petCreated() {}
+
+    @EventPattern('pets.created')
+    async notifyOwner() {}
+}
+
+@WebSocketGateway()
+class PetGateway {
+    @SubscribeMessage('pets.watch')
+    @ValidateMessage({ payload: { schema: Type.Object({ id: Type.Integer() }), name: 'WatchPet' } })
+    watchPet() {}
+}
+
+describe('AsyncAPI', () => {
+    let moduleRef: TestingModule;
+
+    beforeAll(async () => {
+        moduleRef = await Test.createTestingModule({ controllers: [PetMessagesController], providers: [PetGateway] }).compile();
+    });
+
+    afterAll(() => moduleRef.close());
+
+    it('lists message handlers', () => {
+        expect(getMessageHandlers(moduleRef).map(({ address, type, operationId }) => ({ address, type, operationId }))).toEqual([
+            { address: 'pets.create', type: 'message', operationId: 'PetMessagesController_createPet' },
+            { address: '{"cmd":"get","entity":"pet"}', type: 'message', operationId: 'PetMessagesController_getPet' },
+            { address: 'pets.created', type: 'event', operationId: 'PetMessagesController_petCreated' },
+            { address: 'pets.created', type: 'event', operationId: 'PetMessagesController_notifyOwner' },
+            { address: 'pets.watch', type: 'ws', operationId: 'PetGateway_watchPet' },
+        ]);
+    });
+
+    it('generates an AsyncAPI 3.0 document', () => {
+        const document = createAsyncApiDocument(moduleRef, { info: { title: 'Pets', version: '1.0.0' } });
+
+        expect(document.channels['pets_create']).toEqual({
+            address: 'pets.create',
+            messages: {
+                CreatePetPayload: { $ref: '#/components/messages/CreatePetPayload' },
+                CreatePetResponse: { $ref: '#/components/messages/CreatePetResponse' },
+            },
+        });
+        expect(document.operations?.['PetMessagesController_createPet']).toEqual({
+            action: 'receive',
+            channel: { $ref: '#/channels/pets_create' },
+            messages: [{ $ref: '#/channels/pets_create/messages/CreatePetPayload' }],
+            reply: {
+                channel: { $ref: '#/channels/pets_create' },
+                messages: [{ $ref: '#/channels/pets_create/messages/CreatePetResponse' }],
+            },
+        });
+        expect(Object.keys(document.channels['pets_created'].messages as object)).toEqual(['PetCreatedPayload', 'NotifyOwnerPayload']);
+        expect(document.components.messages['NotifyOwnerPayload']).toEqual({ name: 'NotifyOwnerPayload' });
+        expect(document.channels['pets_watch']).toMatchObject({ address: 'pets.watch', messages: { WatchPet: expect.anything() } });
+    });
+
+    it('declares schemas with an $id once, under their $id', () => {
+        const { components } = createAsyncApiDocument(moduleRef, { info: { title: 'Pets', version: '1.0.0' } });
+
+        expect(Object.keys(components.schemas).sort()).toEqual(['CreatePetPayload', 'GetPetPayload', 'Owner', 'Pet', 'WatchPet']);
+        expect(components.schemas['Pet']).toEqual({
+            type: 'object',
+            properties: { id: { type: 'integer' }, name: { type: 'string' }, owner: { $ref: '#/components/schemas/Owner' } },
+            required: ['id', 'name', 'owner'],
+        });
+        expect(components.schemas['CreatePetPayload']).toMatchObject({ properties: { owner: { $ref: '#/components/schemas/Owner' } } });
+        expect(components.messages['GetPetResponse']).toEqual({ name: 'GetPetResponse', payload: { $ref: '#/components/schemas/Pet' } });
+    });
+
+    it('generates an AsyncAPI 2.6 document', () => {
+        const document = createAsyncApiDocument(moduleRef, { asyncapi: '2.6.0', info: { title: 'Pets', version: '1.0.0' } });
+
+        expect(document.operations).toBeUndefined();
+        expect(document.channels['pets.create']).toEqual({
+            publish: {
+                operationId: 'PetMessagesController_createPet',
+                message: { $ref: '#/components/messages/CreatePetPayload' },
+                'x-reply': { message: { $ref: '#/components/messages/CreatePetResponse' } },
+            },
+        });
+        expect(document.channels['pets.created']).toMatchObject({
+            publish: {
+                message: {
+                    oneOf: [{ $ref: '#/components/messages/PetCreatedPayload' }, { $ref: '#/components/messages/NotifyOwnerPayload' }],
+                },
+            },
+        });
+    });
+
+    it('rejects different schemas declared under the same name', async () => {
+        @Controller()
+        class ConflictingController {
+            @MessagePattern('a')
+            @ValidateMessage({ payload: { schema: Type.String(), name: 'Input' } })
+            a() {}
+
+            @MessagePattern('b')
+            @ValidateMessage({ payload: { schema: Type.Number(), name: 'Input' } })
+            b() {}
+        }
+
+        const conflictingModuleRef = await Test.createTestingModule({ controllers: [ConflictingController] }).compile();
+        expect(() => createAsyncApiDocument(conflictingModuleRef, { info: { title: 'Conflicts', version: '1.0.0' } })).toThrow(
+            'AsyncAPI schema "Input" is declared by different schemas.'
+        );
+    });
+
+    it('serves the document', async () => {
+        const httpModuleRef = await Test.createTestingModule({ controllers: [PetMessagesController] }).compile();
+        const app = httpModuleRef.createNestApplication({ logger: false });
+        const document = createAsyncApiDocument(app, { info: { title: 'Pets', version: '1.0.0' } });
+        setupAsyncApi('asyncapi', app, document);
+        await app.init();
+
+        const response = await inject(app.getHttpAdapter().getInstance(), { method: 'GET', url: '/asyncapi' });
+        expect(response.json()).toEqual(document);
+
+        await app.close();
+    });
+});
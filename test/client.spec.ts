@@ -0,0 +1,266 @@
+import { Controller, Get } from '@nestjs/common';
+import { type Static, Type } from '@sinclair/typebox';
+import type { InjectOptions } from 'light-my-request';
+
+import { ApiClientError, ApiClientValidationError, createApiClient } from '../src/client.js';
+import { defineContract } from '../src/contract.js';
+import { HttpEndpoint } from '../src/decorators.js';
+import { createTypeboxTestingApp, TypeboxTestingApp } from '../src/testing.js';
+import { ListQuery } from '../src/util.js';
+
+const PetSchema = Type.Object({
+    id: Type.Integer(),
+    name: Type.String({ minLength: 1 }),
+    status: Type.Union([Type.Literal('available'), Type.Literal('sold')]),
+});
+
+const PetQuerySchema = ListQuery(PetSchema, { sortable: ['name'], filterable: ['status'] });
+
+@Controller('pets')
+class PetController {
+    @HttpEndpoint({
+        method: 'GET',
+        path: ':id',
+        validate: {
+            response: PetSchema,
+            request: [
+                { name: 'id', type: 'param', schema: Type.Integer() },
+                { name: 'x-tenant', type: 'header', schema: Type.String(), required: true },
+            ],
+        },
+    })
+    async getPet(id: number, tenant: string) {
+        return { id, name: tenant, status: 'available' as const };
+    }
+
+    @HttpEndpoint({
+        method: 'GET',
+        validate: {
+            response: Type.Array(Type.Unknown()),
+            request: [{ type: 'query', schema: PetQuerySchema }],
+        },
+    })
+    async listPets(query: Static<typeof PetQuerySchema>) {
+        return [query];
+    }
+
+    @HttpEndpoint({
+        method: 'POST',
+        responseCode: 201,
+        validate: {
+            response: PetSchema,
+            request: [{ type: 'body', schema: Type.Omit(PetSchema, ['id']) }],
+        },
+    })
+    async createPet(pet: Omit<Static<typeof PetSchema>, 'id'>) {
+        return { id: 1, ...pet };
+    }
+
+    @HttpEndpoint({ method: 'DELETE', path: ':id', validate: { request: [{ name: 'id', type: 'param', schema: Type.Integer() }] } })
+    async deletePet(id: number) {
+        return { id } as never;
+    }
+
+    @Get('unvalidated/list')
+    async listUnvalidated() {
+        return ['Figaro'];
+    }
+}
+
+const DateTime = Type.Transform(Type.String({ format: 'date-time' }))
+    .Decode(value => new Date(value))
+    .Encode(value => value.toISOString());
+
+@Controller('events')
+class EventController {
+    @HttpEndpoint({
+        method: 'GET',
+        validate: {
+            response: Type.Object({ at: DateTime }),
+            request: [{ name: 'since', type: 'query', schema: DateTime, required: true }],
+        },
+    })
+    async getNextEvent(since: Date) {
+        return { at: new Date(since.getTime() + 1000) };
+    }
+}
+
+const OwnerSchema = Type.Object({ id: Type.Integer(), name: Type.String() }, { $id: 'Owner' });
+
+@Controller('owners')
+class OwnerController {
+    @HttpEndpoint({
+        method: 'GET',
+        path: ':id',
+        validate: { response: Type.Ref(OwnerSchema), request: [{ name: 'id', type: 'param', schema: Type.Integer() }] },
+    })
+    async getOwner(id: number) {
+        return { id, name: 'Jon' };
+    }
+}
+
+describe('defineContract', () => {
+    it('describes the routes of controllers', () => {
+        const { routes } = defineContract(PetController);
+
+        expect(Object.keys(routes)).toEqual(['getPet', 'listPets', 'createPet', 'deletePet', 'listUnvalidated']);
+        expect(routes.getPet).toEqual({
+            method: 'GET',
+            path: '/pets/:id',
+            request: [
+                { index: 0, type: 'param', name: 'id', required: true, schema: Type.Integer() },
+                { index: 1, type: 'header', name: 'x-tenant', required: true, schema: Type.String() },
+            ],
+            responses: { 200: PetSchema },
+        });
+        expect(routes.createPet).toMatchObject({
+            method: 'POST',
+            path: '/pets',
+            request: [{ index: 0, type: 'body' }],
+            responses: { 201: {} },
+        });
+        expect(routes.listUnvalidated).toEqual({ method: 'GET', path: '/pets/unvalidated/list', request: [], responses: {} });
+    });
+
+    it('is serializable', () => {
+        const { routes } = JSON.parse(JSON.stringify(defineContract(PetController)));
+
+        expect(routes.getPet).toMatchObject({
+            method: 'GET',
+            path: '/pets/:id',
+            request: [{ type: 'param', schema: { type: 'integer' } }, { type: 'header' }],
+            responses: { 200: { type: 'object', required: ['id', 'name', 'status'] } },
+        });
+    });
+
+    it('rejects handlers of the same name', () => {
+        @Controller('owners')
+        class OwnerController {
+            @Get(':id')
+            async getPet() {}
+        }
+
+        expect(() => defineContract(PetController, OwnerController)).toThrow(
+            'Route "getPet" is declared by both PetController and OwnerController.'
+        );
+    });
+});
+
+describe('createApiClient', () => {
+    let testing: TypeboxTestingApp;
+    const requests: InjectOptions[] = [];
+
+    // dispatches the client's requests to the app in memory
+    const fetchFn = (async (url: string, { method, headers, body }: RequestInit = {}) => {
+        const { pathname, search } = new URL(url);
+        const request = {
+            method: method as InjectOptions['method'],
+            url: pathname + search,
+            headers: headers as Record<string, string>,
+            payload: body as string,
+        };
+        requests.push(request);
+
+        const { statusCode, headers: responseHeaders, payload } = await testing.request(request);
+        return new Response(payload || null, { status: statusCode, headers: responseHeaders as Record<string, string> });
+    }) as typeof fetch;
+
+    // the client is typed after the controller, while only the serialized contract is shared
+    const createClient = (validate?: boolean) =>
+        createApiClient<PetController>(JSON.parse(JSON.stringify(defineContract(PetController))), {
+            baseUrl: 'http://localhost/',
+            fetch: fetchFn,
+            validate,
+        });
+
+    beforeAll(async () => {
+        testing = await createTypeboxTestingApp({
+            controllers: [PetController, EventController, OwnerController],
+            typebox: { schemas: [OwnerSchema] },
+        });
+    });
+
+    afterAll(() => testing.close());
+
+    beforeEach(() => {
+        requests.length = 0;
+    });
+
+    it('calls routes with path params and headers', async () => {
+        const pet: { id: number; name: string } = await createClient().getPet(7, 'acme');
+
+        expect(pet).toEqual({ id: 7, name: 'acme', status: 'available' });
+        expect(requests[0]).toMatchObject({ method: 'GET', url: '/pets/7', headers: { 'x-tenant': 'acme' } });
+    });
+
+    it('sends queries with arrays and objects', async () => {
+        const [query] = await createClient().listPets({ limit: 5, sort: ['-name', 'name'], filter: { status: 'sold' } });
+
+        expect(query).toEqual({ limit: 5, offset: 0, sort: ['-name', 'name'], filter: { status: 'sold' } });
+        expect(requests[0].url).toBe('/pets?limit=5&sort=-name&sort=name&filter%5Bstatus%5D=sold');
+    });
+
+    it('sends JSON bodies', async () => {
+        expect(await createClient().createPet({ name: 'Tom', status: 'sold' })).toEqual({ id: 1, name: 'Tom', status: 'sold' });
+    });
+
+    it('throws error responses', async () => {
+        const error = await createClient()
+            .createPet({ name: '', status: 'sold' })
+            .catch(error => error);
+
+        expect(error).toBeInstanceOf(ApiClientError);
+        expect(error).toMatchObject({ status: 400, body: { statusCode: 400 } });
+    });
+
+    it('validates request args before sending them', async () => {
+        await expect(createClient(true).createPet({ name: '', status: 'sold' })).rejects.toThrow(ApiClientValidationError);
+        await expect(createClient(true).createPet({ name: '', status: 'sold' })).rejects.toThrow('createPet body failed validation');
+        expect(requests).toHaveLength(0);
+    });
+
+    it('validates responses', async () => {
+        await expect(createClient(true).getPet(7, 'acme')).resolves.toEqual({ id: 7, name: 'acme', status: 'available' });
+
+        const client = createApiClient<PetController>(
+            {
+                routes: {
+                    getPet: { ...defineContract(PetController).routes.getPet, responses: { 200: Type.Object({ id: Type.String() }) } },
+                },
+            },
+            { baseUrl: 'http://localhost', fetch: fetchFn, validate: { response: true } }
+        );
+        await expect(client.getPet(7, 'acme')).rejects.toThrow('getPet response failed validation');
+    });
+
+    it('encodes args and decodes responses of schemas with transforms', async () => {
+        const client = createApiClient<EventController>(defineContract(EventController), {
+            baseUrl: 'http://localhost',
+            fetch: fetchFn,
+            validate: true,
+        });
+        const event: { at: Date } = await client.getNextEvent(new Date('2024-01-01T00:00:00.000Z'));
+
+        expect(event.at).toEqual(new Date('2024-01-01T00:00:01.000Z'));
+        expect(requests[0].url).toBe('/events?since=2024-01-01T00%3A00%3A00.000Z');
+    });
+
+    it('calls routes referencing shared schemas', async () => {
+        const client = createApiClient<OwnerController>(JSON.parse(JSON.stringify(defineContract(OwnerController))), {
+            baseUrl: 'http://localhost',
+            fetch: fetchFn,
+            validate: true,
+        });
+
+        expect(await client.getOwner(3)).toEqual({ id: 3, name: 'Jon' });
+        expect(
+            await createApiClient<OwnerController>(defineContract(OwnerController), {
+                baseUrl: 'http://localhost',
+                fetch: fetchFn,
+            }).getOwner(4)
+        ).toEqual({
+            id: 4,
+            name: 'Jon',
+        });
+    });
+});
@@ -0,0 +1,215 @@
+import { Controller } from '@nestjs/common';
+import { Type } from '@sinclair/typebox';
+
+import { negotiateContentType, parseNdjson } from '../src/content-types.js';
+import { HttpEndpoint } from '../src/decorators.js';
+import { createTypeboxTestingApp, TypeboxTestingApp } from '../src/testing.js';
+
+const Pet = Type.Object({ name: Type.String(), age: Type.Integer(), vaccinated: Type.Optional(Type.Boolean()) });
+
+@Controller('content')
+class ContentController {
+    @HttpEndpoint({
+        method: 'POST',
+        path: 'pets',
+        validate: {
+            response: Pet,
+            request: [{ type: 'body', schema: Pet, contentTypes: ['application/json', 'application/x-www-form-urlencoded'] }],
+        },
+    })
+    async createPet(pet: { name: string; age: number }) {
+        return pet;
+    }
+
+    @HttpEndpoint({
+        method: 'POST',
+        path: 'notes',
+        validate: {
+            response: Type.Object({ length: Type.Integer() }),
+            request: [{ type: 'body', schema: Type.String({ maxLength: 10 }), contentTypes: ['text/plain'] }],
+        },
+    })
+    async createNote(note: string) {
+        return { length: note.length };
+    }
+
+    @HttpEndpoint({
+        method: 'POST',
+        path: 'import',
+        validate: {
+            response: { schema: Type.Array(Pet), contentTypes: ['application/json', 'application/x-ndjson'] },
+            request: [{ type: 'body', schema: Type.Array(Pet), contentTypes: ['application/x-ndjson'] }],
+        },
+    })
+    async importPets(pets: { name: string; age: number }[]) {
+        return pets;
+    }
+
+    @HttpEndpoint({
+        method: 'GET',
+        path: 'greeting',
+        validate: { response: { schema: Type.String(), contentTypes: ['text/plain'] } },
+    })
+    async greet() {
+        return 'Hello';
+    }
+}
+
+describe('content types', () => {
+    let testing: TypeboxTestingApp;
+
+    beforeAll(async () => {
+        testing = await createTypeboxTestingApp({ controllers: [ContentController] });
+    });
+
+    afterAll(() => testing.close());
+
+    it('coerces form-urlencoded bodies', async () => {
+        const response = await testing.request({
+            method: 'POST',
+            url: '/content/pets',
+            headers: { 'content-type': 'application/x-www-form-urlencoded' },
+            payload: 'name=Figaro&age=3&vaccinated=true',
+        });
+
+        expect(response.body).toEqual({ name: 'Figaro', age: 3, vaccinated: true });
+    });
+
+    it('still accepts json bodies', async () => {
+        const response = await testing.request({ method: 'POST', url: '/content/pets', payload: { name: 'Figaro', age: 3 } });
+
+        expect(response.body).toEqual({ name: 'Figaro', age: 3 });
+    });
+
+    it('rejects unsupported content types', async () => {
+        const response = await testing.request({
+            method: 'POST',
+            url: '/content/pets',
+            headers: { 'content-type': 'text/plain' },
+            payload: 'Figaro',
+        });
+
+        expect(response.statusCode).toBe(415);
+    });
+
+    it('validates text/plain bodies', async () => {
+        const valid = await testing.request({
+            method: 'POST',
+            url: '/content/notes',
+            headers: { 'content-type': 'text/plain; charset=utf-8' },
+            payload: 'feed cat',
+        });
+        expect(valid.body).toEqual({ length: 8 });
+
+        const invalid = await testing.request({
+            method: 'POST',
+            url: '/content/notes',
+            headers: { 'content-type': 'text/plain' },
+            payload: 'feed the cat twice',
+        });
+        expect(invalid.statusCode).toBe(400);
+        expect(invalid.body).toMatchObject({ errors: [{ keyword: 'maxLength' }] });
+    });
+
+    it('parses and validates ndjson bodies line by line', async () => {
+        const valid = await testing.request({
+            method: 'POST',
+            url: '/content/import',
+            headers: { 'content-type': 'application/x-ndjson' },
+            payload: '{"name":"Figaro","age":3}\n{"name":"Tom","age":5}\n',
+        });
+        expect(valid.body).toEqual([
+            { name: 'Figaro', age: 3 },
+            { name: 'Tom', age: 5 },
+        ]);
+
+        const invalidLine = await testing.request({
+            method: 'POST',
+            url: '/content/import',
+            headers: { 'content-type': 'application/x-ndjson' },
+            payload: '{"name":"Figaro","age":3}\n{"name":"Tom"',
+        });
+        expect(invalidLine.statusCode).toBe(400);
+        expect(invalidLine.body).toMatchObject({ errors: [{ keyword: 'ndjson', instancePath: '/1' }] });
+
+        const invalidItem = await testing.request({
+            method: 'POST',
+            url: '/content/import',
+            headers: { 'content-type': 'application/x-ndjson' },
+            payload: '{"name":"Figaro","age":3}\n{"name":"Tom","age":"five"}\n',
+        });
+        expect(invalidItem.statusCode).toBe(400);
+        expect(invalidItem.body).toMatchObject({ errors: [{ instancePath: '/1/age' }] });
+    });
+
+    it('serializes responses in the negotiated content type', async () => {
+        const payload = '{"name":"Figaro","age":3}\n';
+
+        const ndjson = await testing.request({
+            method: 'POST',
+            url: '/content/import',
+            headers: { 'content-type': 'application/x-ndjson', accept: 'application/x-ndjson' },
+            payload,
+        });
+        expect(ndjson.headers['content-type']).toMatch(/^application\/x-ndjson/);
+        expect(ndjson.payload).toBe(payload);
+
+        const json = await testing.request({
+            method: 'POST',
+            url: '/content/import',
+            headers: { 'content-type': 'application/x-ndjson', accept: 'application/json' },
+            payload,
+        });
+        expect(json.body).toEqual([{ name: 'Figaro', age: 3 }]);
+
+        const text = await testing.request({ method: 'GET', url: '/content/greeting' });
+        expect(text.headers['content-type']).toMatch(/^text\/plain/);
+        expect(text.payload).toBe('Hello');
+    });
+
+    it('documents request and response content types', () => {
+        const { paths } = testing.getOpenApiDocument();
+
+        expect(paths['/content/pets'].post?.requestBody).toMatchObject({
+            content: {
+                'application/json': { schema: expect.anything() },
+                'application/x-www-form-urlencoded': { schema: expect.anything() },
+            },
+        });
+        expect(paths['/content/import'].post?.responses).toMatchObject({
+            '200': {
+                content: {
+                    'application/json': { schema: { $ref: '#/components/schemas/ImportPetsResponse' } },
+                    'application/x-ndjson': { schema: { $ref: '#/components/schemas/ImportPetsResponse' } },
+                },
+            },
+        });
+        expect(paths['/content/greeting'].get?.responses).toMatchObject({
+            '200': { content: { 'text/plain': { schema: { $ref: '#/components/schemas/GreetResponse' } } } },
+        });
+    });
+});
+
+describe('parseNdjson', () => {
+    it('skips blank lines', () => {
+        expect(parseNdjson('1\n\n"a"\n')).toEqual({ data: [1, 'a'] });
+    });
+
+    it('points at the first invalid line', () => {
+        expect(parseNdjson('1\n{\n2').error).toMatchObject({ keyword: 'ndjson', instancePath: '/1' });
+    });
+});
+
+describe('negotiateContentType', () => {
+    const contentTypes = ['application/json', 'application/x-ndjson'] as const;
+
+    it('picks the first accepted content type', () => {
+        expect(negotiateContentType('application/x-ndjson, application/json', [...contentTypes])).toBe('application/x-ndjson');
+        expect(negotiateContentType('text/html, application/*', [...contentTypes])).toBe('application/json');
+    });
+
+    it('falls back to the first content type', () => {
+        expect(negotiateContentType(undefined, [...contentTypes])).toBe('application/json');
+        expect(negotiateContentType('text/html', [...contentTypes])).toBe('application/json');
+    });
+});
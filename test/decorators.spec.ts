@@ -0,0 +1,107 @@
+import { Type } from '@sinclair/typebox';
+
+import { configureTypebox } from '../src/ajv.js';
+import { buildSchemaValidator, HttpEndpoint } from '../src/decorators.js';
+import { AjvValidationException, ResponseValidationException } from '../src/exceptions.js';
+
+describe('buildSchemaValidator', () => {
+    beforeEach(() => configureTypebox());
+
+    it('requires a name and TypeBox schema', () => {
+        expect(() => buildSchemaValidator({ type: 'body', schema: Type.String() })).toThrow('missing name');
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        expect(() => buildSchemaValidator({ type: 'body', name: 'Body', schema: { type: 'string' } as any })).toThrow(
+            'expects a TypeBox schema'
+        );
+    });
+
+    it('coerces top level properties and scalars', () => {
+        const objectValidator = buildSchemaValidator({
+            type: 'body',
+            name: 'Body',
+            schema: Type.Object({ count: Type.Integer(), price: Type.Number() }),
+            coerceTypes: true,
+        });
+        expect(objectValidator.validate({ count: '4.5', price: '1.5' })).toEqual({ count: 4, price: 1.5 });
+
+        const scalarValidator = buildSchemaValidator({ type: 'param', name: 'id', schema: Type.Number() });
+        expect(scalarValidator.validate('12' as never)).toBe(12);
+    });
+
+    it('strips unknown props of objects and array items', () => {
+        const schema = Type.Object({ id: Type.Number(), name: Type.String() });
+
+        const objectValidator = buildSchemaValidator({ type: 'response', name: 'Response', schema, stripUnknownProps: true });
+        expect(objectValidator.validate({ id: 1, name: 'Figaro', secret: 'x' })).toEqual({ id: 1, name: 'Figaro' });
+
+        const arrayValidator = buildSchemaValidator({ type: 'response', name: 'Response', schema: Type.Array(schema) });
+        expect(arrayValidator.validate([{ id: 1, name: 'Figaro', secret: 'x' }])).toEqual([{ id: 1, name: 'Figaro' }]);
+    });
+
+    it('skips missing optional values', () => {
+        const validator = buildSchemaValidator({ type: 'query', name: 'limit', schema: Type.Number(), required: false });
+        expect(validator.validate(undefined as never)).toBeUndefined();
+    });
+
+    it('throws a 400 for invalid requests', () => {
+        const validator = buildSchemaValidator({ type: 'body', name: 'Body', schema: Type.Object({ id: Type.Number() }) });
+        expect(() => validator.validate({})).toThrow(AjvValidationException);
+    });
+
+    it('throws a server error for invalid responses', () => {
+        const validator = buildSchemaValidator({ type: 'response', name: 'Response', schema: Type.Object({ id: Type.Number() }) });
+        expect(() => validator.validate({})).toThrow(ResponseValidationException);
+    });
+
+    it('compiles against the configured Ajv instance', () => {
+        const validator = buildSchemaValidator({ type: 'body', name: 'Body', schema: Type.String({ format: 'even' }) });
+
+        configureTypebox({ formats: { even: (value: string) => value.length % 2 === 0 } });
+
+        expect(validator.validate('ab' as never)).toBe('ab');
+        expect(() => validator.validate('abc' as never)).toThrow(AjvValidationException);
+    });
+});
+
+describe('HttpEndpoint', () => {
+    const decorate = (config: Parameters<typeof HttpEndpoint>[0]) => {
+        class TestController {
+            async handler() {}
+        }
+        const descriptor = Object.getOwnPropertyDescriptor(TestController.prototype, 'handler')!;
+        HttpEndpoint(config)(TestController.prototype, 'handler', descriptor);
+    };
+
+    it('requires a validator for every path param', () => {
+        expect(() => decorate({ method: 'GET', path: ':id', validate: { request: [{ type: 'query', name: 'limit' }] } })).toThrow(
+            'Path param "id" is missing a request validator.'
+        );
+    });
+
+    it('rejects optional validators for required path params', () => {
+        expect(() =>
+            decorate({ method: 'GET', path: ':id', validate: { request: [{ type: 'param', name: 'id', required: false }] } })
+        ).toThrow('Optional path param "id" is required in validator.');
+    });
+
+    it('rejects param validators missing from the path', () => {
+        expect(() =>
+            decorate({
+                method: 'GET',
+                path: ':id',
+                validate: {
+                    request: [
+                        { type: 'param', name: 'id' },
+                        { type: 'param', name: 'other' },
+                    ],
+                },
+            })
+        ).toThrow('Request validator references non-existent path parameter "other".');
+    });
+
+    it('accepts matching path params', () => {
+        expect(() =>
+            decorate({ method: 'GET', path: 'pets/:id', validate: { request: [{ type: 'param', name: 'id', schema: Type.Number() }] } })
+        ).not.toThrow();
+    });
+});
@@ -0,0 +1,69 @@
+import { Type } from '@sinclair/typebox';
+
+import { configureTypebox } from '../src/ajv.js';
+import { buildSchemaValidator } from '../src/decorators.js';
+import { ajvEngine, typeboxEngine } from '../src/engines.js';
+import { AjvValidationException } from '../src/exceptions.js';
+
+const PetSchema = Type.Object({
+    id: Type.Integer({ minimum: 1 }),
+    name: Type.String({ minLength: 2 }),
+    type: Type.Literal('cat'),
+});
+
+const getErrors = (validate: () => unknown) => {
+    try {
+        validate();
+    } catch (error) {
+        return (error as AjvValidationException<never, never>).errors;
+    }
+};
+
+describe.each([ajvEngine, typeboxEngine])('$name engine', engine => {
+    beforeEach(() => configureTypebox());
+
+    it('validates data', () => {
+        const check = engine.compile(PetSchema, { allErrors: false });
+
+        expect(check({ id: 1, name: 'Tom', type: 'cat' })).toBe(true);
+        expect(check({ id: 1, name: 'Tom', type: 'dog' })).toBe(false);
+        expect(check.errors).toHaveLength(1);
+    });
+
+    it('normalizes errors', () => {
+        const validator = buildSchemaValidator({ type: 'body', name: 'Body', schema: PetSchema, engine, allErrors: true });
+        const errors = getErrors(() => validator.validate({ id: 0, name: 'T' }));
+
+        expect(errors).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({ keyword: 'required', instancePath: '', params: { missingProperty: 'type' } }),
+                expect.objectContaining({ keyword: 'minimum', instancePath: '/id', params: { comparison: '>=', limit: 1 } }),
+                expect.objectContaining({ keyword: 'minLength', instancePath: '/name', params: { limit: 2 } }),
+            ])
+        );
+    });
+});
+
+describe('engine selection', () => {
+    it('uses the globally configured engine', () => {
+        const compile = jest.spyOn(typeboxEngine, 'compile');
+        const validator = buildSchemaValidator({ type: 'body', name: 'Body', schema: PetSchema });
+
+        configureTypebox({ engine: typeboxEngine });
+        expect(validator.validate({ id: 1, name: 'Tom', type: 'cat' })).toEqual({ id: 1, name: 'Tom', type: 'cat' });
+        expect(compile).toHaveBeenCalledTimes(1);
+
+        configureTypebox();
+        validator.validate({ id: 1, name: 'Tom', type: 'cat' });
+        expect(compile).toHaveBeenCalledTimes(1);
+
+        compile.mockRestore();
+    });
+
+    it('supports TypeBox only kinds through the typebox engine', () => {
+        const validator = buildSchemaValidator({ type: 'body', name: 'Body', schema: Type.Date(), engine: typeboxEngine });
+
+        expect(validator.validate(new Date(0) as never)).toEqual(new Date(0));
+        expect(() => validator.validate('1970-01-01' as never)).toThrow(AjvValidationException);
+    });
+});
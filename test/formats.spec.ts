@@ -0,0 +1,78 @@
+import { FormatRegistry, Type } from '@sinclair/typebox';
+
+import { configureTypebox } from '../src/ajv.js';
+import { buildSchemaValidator } from '../src/decorators.js';
+import { ajvEngine, typeboxEngine } from '../src/engines.js';
+import { BUILT_IN_FORMATS, registerFormat, toFormatValidator } from '../src/formats.js';
+
+const examples: Record<string, [valid: string, invalid: string]> = {
+    uuid: ['0b7a1e8e-3f9c-4a4b-9d52-1c1e2f3a4b5c', '0b7a1e8e-3f9c-4a4b-9d52'],
+    ulid: ['01ARZ3NDEKTSV4RRFFQ69G5FAV', '01ARZ3NDEKTSV4RRFFQ69G5FAU!'],
+    e164: ['+14155552671', '4155552671'],
+    'iso-country': ['NL', 'XX'],
+    'iso-currency': ['EUR', 'EURO'],
+    iban: ['GB82 WEST 1234 5698 7654 32', 'GB82WEST12345698765433'],
+    semver: ['1.2.3-beta.1+build.5', '1.2'],
+    cuid2: ['tz4a98xxat96iws9zmbrgj3a', 'Tz4a98xxat96iws9zmbrgj3a'],
+};
+
+describe('built-in formats', () => {
+    it('has examples for every format', () => {
+        expect(Object.keys(examples).sort()).toEqual(Object.keys(BUILT_IN_FORMATS).sort());
+    });
+
+    describe.each([ajvEngine, typeboxEngine])('$name engine', engine => {
+        beforeAll(() => configureTypebox());
+
+        it.each(Object.entries(examples))('validates "%s"', (format, [valid, invalid]) => {
+            const { check } = buildSchemaValidator({ type: 'body', name: 'Body', schema: Type.String({ format }), engine });
+
+            expect(check(valid)).toBe(true);
+            expect(check(invalid)).toBe(false);
+        });
+
+        it('agrees on ajv-formats formats', () => {
+            const { check } = buildSchemaValidator({ type: 'body', name: 'Body', schema: Type.String({ format: 'email' }), engine });
+
+            expect(check('jon@example.com')).toBe(true);
+            expect(check('not an email')).toBe(false);
+        });
+    });
+});
+
+describe('registerFormat', () => {
+    it('registers formats with both engines', () => {
+        registerFormat('tenant-id', /^t_[a-z0-9]{4}$/);
+        configureTypebox();
+
+        expect(FormatRegistry.Has('tenant-id')).toBe(true);
+
+        for (const engine of [ajvEngine, typeboxEngine]) {
+            const { check } = buildSchemaValidator({ type: 'body', name: 'Body', schema: Type.String({ format: 'tenant-id' }), engine });
+            expect(check('t_ab12')).toBe(true);
+            expect(check('ab12')).toBe(false);
+        }
+    });
+
+    it('registers module formats with the TypeBox engine', () => {
+        configureTypebox({ formats: { even: { type: 'string', validate: (value: string) => value.length % 2 === 0 } } });
+
+        const { check } = buildSchemaValidator({
+            type: 'body',
+            name: 'Body',
+            schema: Type.String({ format: 'even' }),
+            engine: typeboxEngine,
+        });
+        expect(check('ab')).toBe(true);
+        expect(check('abc')).toBe(false);
+    });
+});
+
+describe('toFormatValidator', () => {
+    it('converts Ajv formats', () => {
+        expect(toFormatValidator('^a+$')?.('aaa')).toBe(true);
+        expect(toFormatValidator(true)?.('anything')).toBe(true);
+        expect(toFormatValidator({ async: true, validate: async () => true })).toBeUndefined();
+        expect(toFormatValidator({ type: 'number', validate: () => true })).toBeUndefined();
+    });
+});
@@ -0,0 +1,93 @@
+import { Controller } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host.js';
+import { EventPattern, MessagePattern } from '@nestjs/microservices';
+import { WsException } from '@nestjs/websockets';
+import { Type } from '@sinclair/typebox';
+import { lastValueFrom, of } from 'rxjs';
+
+import { ValidateMessage } from '../src/decorators.js';
+import { problemDetailsErrorFormatter } from '../src/error-formatters.js';
+import { TypeboxMessageInterceptor } from '../src/interceptors.js';
+import { createTypeboxTestingApp, TypeboxTestingApp } from '../src/testing.js';
+
+const PetSchema = Type.Object({ id: Type.Integer(), name: Type.String() });
+
+const created: unknown[] = [];
+
+@Controller()
+class PetMessagesController {
+    @MessagePattern('pets.create')
+    @ValidateMessage({ payload: Type.Object({ name: Type.String({ minLength: 1 }) }), response: PetSchema })
+    async createPet(payload: { name: string }) {
+        return { id: 1, ...payload, secret: 'x' };
+    }
+
+    @MessagePattern({ cmd: 'pets.get' })
+    @ValidateMessage({ payload: Type.Integer(), response: PetSchema })
+    async getPet(id: number) {
+        return { id, name: id === 13 ? undefined : 'Figaro' } as never;
+    }
+
+    @EventPattern('pets.created')
+    @ValidateMessage({ payload: { schema: PetSchema, errorFormatter: problemDetailsErrorFormatter } })
+    async petCreated(pet: { id: number; name: string }) {
+        created.push(pet);
+    }
+}
+
+describe('ValidateMessage', () => {
+    let testing: TypeboxTestingApp;
+
+    beforeAll(async () => {
+        testing = await createTypeboxTestingApp({ controllers: [PetMessagesController] });
+    });
+
+    afterAll(() => testing.close());
+
+    it('validates payloads and strips replies', async () => {
+        await expect(testing.sendMessage('pets.create', { name: 'Figaro' })).resolves.toEqual({ id: 1, name: 'Figaro' });
+        await expect(testing.sendMessage({ cmd: 'pets.get' }, 7)).resolves.toEqual({ id: 7, name: 'Figaro' });
+    });
+
+    it('rejects invalid payloads with the formatted error', async () => {
+        await expect(testing.sendMessage('pets.create', { name: '' })).rejects.toMatchObject({
+            statusCode: 400,
+            message: 'Validation error (payload)',
+            errors: [{ keyword: 'minLength', instancePath: '/name' }],
+        });
+    });
+
+    it('uses the error formatter of the validator', async () => {
+        await expect(testing.sendMessage('pets.created', { id: 'one', name: 'Figaro' })).rejects.toMatchObject({
+            detail: 'Validation error (payload)',
+            parameter: 'PetCreatedPayload',
+            errors: [{ pointer: '#/id' }],
+        });
+
+        await testing.sendMessage('pets.created', { id: 1, name: 'Figaro' });
+        expect(created).toEqual([{ id: 1, name: 'Figaro' }]);
+    });
+
+    it('rejects invalid replies with a sanitized error', async () => {
+        await expect(testing.sendMessage({ cmd: 'pets.get' }, 13)).rejects.toEqual({
+            statusCode: 500,
+            message: 'Response validation error',
+        });
+    });
+});
+
+describe('TypeboxMessageInterceptor', () => {
+    it('throws WsException for WebSocket messages', async () => {
+        const context = new ExecutionContextHost([{}, { name: '' }], PetMessagesController, PetMessagesController.prototype.createPet);
+        context.setType('ws');
+
+        const interceptor = new TypeboxMessageInterceptor(new Reflector());
+        const reply = interceptor.intercept(context, { handle: () => of({ id: 1, name: 'Figaro', secret: 'x' }) });
+        await expect(lastValueFrom(reply)).resolves.toEqual({ id: 1, name: 'Figaro' });
+
+        const failed = interceptor.intercept(context, { handle: () => of({ id: 'one' }) });
+        await expect(lastValueFrom(failed)).rejects.toThrow(WsException);
+        await expect(lastValueFrom(failed)).rejects.toHaveProperty('error', { statusCode: 500, message: 'Response validation error' });
+    });
+});
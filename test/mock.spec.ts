@@ -0,0 +1,141 @@
+import { Controller, Module } from '@nestjs/common';
+import { Type } from '@sinclair/typebox';
+import { Value } from '@sinclair/typebox/value';
+
+import { HttpEndpoint } from '../src/decorators.js';
+import { applyFormats } from '../src/formats.js';
+import { generateExample } from '../src/mock.js';
+import { TypeboxModule } from '../src/module.js';
+import { createTypeboxTestingApp, TypeboxTestingApp } from '../src/testing.js';
+import { LiteralUnion, Nullable } from '../src/util.js';
+
+const PetSchema = Type.Object({
+    id: Type.String({ format: 'uuid' }),
+    name: Type.String({ examples: ['Figaro'] }),
+    kind: LiteralUnion(['cat', 'dog', 'hamster']),
+    email: Type.String({ format: 'email' }),
+    born: Type.String({ format: 'date' }),
+    country: Type.String({ format: 'iso-country' }),
+    age: Type.Integer({ minimum: 1, maximum: 20 }),
+    weight: Type.Number({ exclusiveMinimum: 0, maximum: 50 }),
+    tags: Type.Array(Type.String({ minLength: 3, maxLength: 8 }), { minItems: 2, maxItems: 4 }),
+    owner: Nullable(Type.Object({ name: Type.String(), phone: Type.Optional(Type.String({ format: 'e164' })) })),
+    status: Type.Union([Type.Literal('active'), Type.Literal('archived')], { default: 'active' }),
+});
+
+const OrderSchema = Type.Object({ id: Type.Integer() }, { examples: [{ id: 42 }] });
+
+let calls = 0;
+
+@Controller('pets')
+class PetController {
+    @HttpEndpoint({ method: 'GET', path: ':id', validate: { response: PetSchema, request: [{ name: 'id', type: 'param' }] } })
+    async getPet(_id: string) {
+        calls++;
+        return {} as never;
+    }
+
+    @HttpEndpoint({
+        method: 'POST',
+        validate: { response: PetSchema, request: [{ type: 'body', schema: Type.Object({ name: Type.String({ minLength: 1 }) }) }] },
+    })
+    async createPet(_pet: { name: string }) {
+        calls++;
+        return {} as never;
+    }
+
+    @HttpEndpoint({ method: 'DELETE', path: ':id', validate: { request: [{ name: 'id', type: 'param' }] } })
+    async deletePet(_id: string) {
+        calls++;
+        return { deleted: true } as never;
+    }
+}
+
+@Controller('orders')
+class OrderController {
+    @HttpEndpoint({ method: 'GET', validate: { response: OrderSchema } })
+    async getOrder() {
+        return { id: 1 };
+    }
+}
+
+@Module({ imports: [TypeboxModule.forFeature({ mock: { seed: 'pets' } })], controllers: [PetController] })
+class MockedPetsModule {}
+
+@Module({ controllers: [OrderController] })
+class OrdersModule {}
+
+describe('generateExample', () => {
+    it('generates values valid against the schema', () => {
+        applyFormats();
+
+        for (const seed of [1, 2, 3, 'pets']) {
+            const pet = generateExample(PetSchema, { seed });
+            expect(Value.Errors(PetSchema, pet).First()).toBeUndefined();
+            expect(pet.name).toBe('Figaro');
+            expect(pet.status).toBe('active');
+        }
+    });
+
+    it('is deterministic per seed', () => {
+        expect(generateExample(PetSchema, { seed: 'pets' })).toEqual(generateExample(PetSchema, { seed: 'pets' }));
+        expect(generateExample(PetSchema, { seed: 1 })).not.toEqual(generateExample(PetSchema, { seed: 2 }));
+    });
+
+    it('prefers examples unless disabled', () => {
+        expect(generateExample(OrderSchema)).toEqual({ id: 42 });
+        expect(generateExample(OrderSchema, { useExamples: false })).toEqual({ id: expect.any(Number) });
+    });
+
+    it('ends recursive schemas', () => {
+        const NodeSchema = Type.Recursive(This => Type.Object({ name: Type.String(), children: Type.Optional(Type.Array(This)) }));
+        const node = generateExample(NodeSchema, { seed: 5 });
+
+        expect(Value.Check(NodeSchema, node)).toBe(true);
+        expect(JSON.stringify(node).split('children').length).toBeLessThan(100);
+    });
+});
+
+describe('mock mode', () => {
+    let testing: TypeboxTestingApp;
+
+    beforeAll(async () => {
+        testing = await createTypeboxTestingApp({ imports: [MockedPetsModule, OrdersModule] });
+    });
+
+    afterAll(() => testing.close());
+
+    it('responds with generated examples instead of running handlers of mocked modules', async () => {
+        const response = await testing.request({ method: 'GET', url: '/pets/7' });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body).toEqual(JSON.parse(JSON.stringify(generateExample(PetSchema, { seed: 'pets' }))));
+        expect(calls).toBe(0);
+    });
+
+    it('validates requests of mocked handlers', async () => {
+        const invalid = await testing.request({ method: 'POST', url: '/pets', payload: { name: '' } });
+        expect(invalid.statusCode).toBe(400);
+        expect(invalid.body).toMatchObject({ message: 'Validation error (body)' });
+
+        const valid = await testing.request({ method: 'POST', url: '/pets', payload: { name: 'Tom' } });
+        expect(valid.body).toEqual(JSON.parse(JSON.stringify(generateExample(PetSchema, { seed: 'pets' }))));
+        expect(calls).toBe(0);
+    });
+
+    it('runs handlers without a response schema', async () => {
+        expect((await testing.request({ method: 'DELETE', url: '/pets/7' })).body).toEqual({ deleted: true });
+        expect(calls).toBe(1);
+    });
+
+    it('runs handlers of other modules', async () => {
+        expect((await testing.request({ method: 'GET', url: '/orders' })).body).toEqual({ id: 1 });
+    });
+
+    it('mocks every module when enabled for the root module', async () => {
+        const app = await createTypeboxTestingApp({ controllers: [OrderController], typebox: { mock: true } });
+
+        expect((await app.request({ method: 'GET', url: '/orders' })).body).toEqual({ id: 42 });
+        await app.close();
+    });
+});
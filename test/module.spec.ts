@@ -0,0 +1,111 @@
+import { Controller, Injectable, Module } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { Type } from '@sinclair/typebox';
+import Ajv from 'ajv';
+
+import { configureTypebox, getTypeboxOptions } from '../src/ajv.js';
+import { buildSchemaValidator, HttpEndpoint } from '../src/decorators.js';
+import { TYPEBOX_MODULE_OPTIONS, TypeboxModule } from '../src/module.js';
+import { createTypeboxTestingApp } from '../src/testing.js';
+import type { TypeboxModuleOptions, TypeboxOptionsFactory } from '../src/types.js';
+
+@Controller('tenants')
+class TenantController {
+    @HttpEndpoint({
+        method: 'POST',
+        validate: { request: [{ type: 'body', schema: Type.Object({ id: Type.String({ format: 'tenant-id' }) }) }] },
+    })
+    async createTenant(data: { id: string }) {
+        return data as never;
+    }
+}
+
+// shared schema, referenced by $id without being embedded in the schemas referencing it
+const OwnerSchema = Type.Object({ name: Type.String() }, { $id: 'Owner' });
+const PetSchema = Type.Object({ name: Type.String(), owners: Type.Array(Type.Ref(OwnerSchema)) });
+
+@Controller('pets')
+class PetController {
+    @HttpEndpoint({ method: 'POST', validate: { response: PetSchema, request: [{ type: 'body', schema: PetSchema }] } })
+    async createPet(data: unknown) {
+        return data as never;
+    }
+}
+
+@Injectable()
+class TypeboxConfig implements TypeboxOptionsFactory {
+    createTypeboxOptions(): TypeboxModuleOptions {
+        return { formats: { 'tenant-id': /^t_\d+$/ } };
+    }
+}
+
+@Module({ providers: [{ provide: 'TENANT_FORMAT', useValue: /^t_\d+$/ }], exports: ['TENANT_FORMAT'] })
+class ConfigModule {}
+
+describe('TypeboxModule', () => {
+    it('configures validators with the forRoot() options', async () => {
+        const testing = await createTypeboxTestingApp({
+            controllers: [TenantController],
+            typebox: { formats: { 'tenant-id': /^t_\d+$/ } },
+        });
+
+        expect((await testing.request({ method: 'POST', url: '/tenants', payload: { id: 't_1' } })).statusCode).toBe(200);
+        expect((await testing.request({ method: 'POST', url: '/tenants', payload: { id: 'x' } })).statusCode).toBe(400);
+        expect(testing.app.get(Ajv)).toBeInstanceOf(Ajv);
+        await testing.close();
+    });
+
+    it('resolves forRootAsync() options from a factory', async () => {
+        const moduleRef = await Test.createTestingModule({
+            imports: [
+                TypeboxModule.forRootAsync({
+                    imports: [ConfigModule],
+                    inject: ['TENANT_FORMAT'],
+                    useFactory: (format: RegExp) => ({ formats: { 'tenant-id': format }, responseValidation: 'log' }),
+                }),
+            ],
+        }).compile();
+
+        expect(moduleRef.get(Ajv).formats['tenant-id']).toBeDefined();
+        expect(getTypeboxOptions().responseValidation).toBe('log');
+        await moduleRef.close();
+    });
+
+    it('resolves forRootAsync() options from a class', async () => {
+        const moduleRef = await Test.createTestingModule({ imports: [TypeboxModule.forRootAsync({ useClass: TypeboxConfig })] }).compile();
+
+        expect(moduleRef.get(TYPEBOX_MODULE_OPTIONS)).toEqual({ formats: { 'tenant-id': /^t_\d+$/ } });
+        expect(moduleRef.get(Ajv).formats['tenant-id']).toBeDefined();
+        await moduleRef.close();
+    });
+
+    it('requires a factory for forRootAsync()', () => {
+        expect(() => TypeboxModule.forRootAsync({})).toThrow(
+            'TypeboxModule.forRootAsync() expects "useFactory", "useClass" or "useExisting".'
+        );
+    });
+
+    it('resolves Type.Ref() to shared schemas', async () => {
+        const testing = await createTypeboxTestingApp({ controllers: [PetController], typebox: { schemas: [OwnerSchema] } });
+        const valid = await testing.request({ method: 'POST', url: '/pets', payload: { name: 'Figaro', owners: [{ name: 'Ann' }] } });
+        const invalid = await testing.request({ method: 'POST', url: '/pets', payload: { name: 'Figaro', owners: [{}] } });
+        const { components } = testing.getOpenApiDocument();
+        await testing.close();
+
+        expect(valid.body).toEqual({ name: 'Figaro', owners: [{ name: 'Ann' }] });
+        expect(invalid.statusCode).toBe(400);
+        expect(components?.schemas?.Owner).toEqual({ type: 'object', properties: { name: { type: 'string' } }, required: ['name'] });
+        expect(components?.schemas?.CreatePetResponse).toMatchObject({
+            properties: { owners: { items: { $ref: '#/components/schemas/Owner' } } },
+        });
+    });
+
+    it('names the $id of unresolved references', () => {
+        configureTypebox({});
+        const validator = buildSchemaValidator({ type: 'body', name: 'Pet', schema: PetSchema });
+
+        expect(() => validator.validate({ name: 'Figaro', owners: [] })).toThrow(
+            'Unable to resolve $ref "Owner": no schema with $id "Owner" is embedded or registered with "schemas".'
+        );
+    });
+});
@@ -0,0 +1,220 @@
+import { Controller } from '@nestjs/common';
+import { Type } from '@sinclair/typebox';
+
+import { HttpEndpoint } from '../src/decorators.js';
+import { problemDetailsErrorFormatter } from '../src/error-formatters.js';
+import { createTypeboxTestingApp, TypeboxTestingApp } from '../src/testing.js';
+import type { UploadedFile } from '../src/types.js';
+
+const boundary = 'typebox-boundary';
+
+const multipart = (parts: { name: string; value: string; filename?: string; contentType?: string }[]) => ({
+    headers: { 'content-type': `multipart/form-data; boundary=${boundary}` },
+    payload:
+        parts
+            .map(({ name, value, filename, contentType }) =>
+                [
+                    `--${boundary}`,
+                    `Content-Disposition: form-data; name="${name}"${filename ? `; filename="${filename}"` : ''}`,
+                    ...(contentType ? [`Content-Type: ${contentType}`] : []),
+                    '',
+                    value,
+                ].join('\r\n')
+            )
+            .join('\r\n') + `\r\n--${boundary}--\r\n`,
+});
+
+const describeFile = (file?: UploadedFile) => file && { name: file.originalname, type: file.mimetype, size: file.size };
+
+@Controller('uploads')
+class UploadController {
+    @HttpEndpoint({
+        method: 'POST',
+        path: 'pets',
+        validate: {
+            response: Type.Unknown(),
+            request: [
+                {
+                    type: 'form',
+                    schema: Type.Object({ name: Type.String(), age: Type.Integer() }),
+                    files: {
+                        avatar: { mimeTypes: ['image/*'], maxSize: 10 },
+                        documents: { multiple: true, maxCount: 2, required: false },
+                    },
+                },
+            ],
+        },
+    })
+    async createPet(form: { name: string; age: number; avatar: UploadedFile; documents: UploadedFile[] }) {
+        return { name: form.name, age: form.age, avatar: describeFile(form.avatar), documents: form.documents.length };
+    }
+
+    @HttpEndpoint({
+        method: 'POST',
+        path: 'avatar',
+        validate: {
+            response: Type.Unknown(),
+            request: [{ type: 'file', name: 'avatar', mimeTypes: ['image/png'] }],
+        },
+    })
+    async uploadAvatar(avatar: UploadedFile) {
+        return describeFile(avatar);
+    }
+
+    @HttpEndpoint({
+        method: 'POST',
+        path: 'profiles',
+        validate: {
+            response: Type.Unknown(),
+            request: [
+                { type: 'form', schema: Type.Object({ name: Type.String() }) },
+                { type: 'file', name: 'avatar', mimeTypes: ['image/png'] },
+            ],
+        },
+    })
+    async createProfile(form: { name: string }, avatar: UploadedFile) {
+        return { name: form.name, avatar: describeFile(avatar) };
+    }
+
+    @HttpEndpoint({
+        method: 'POST',
+        path: 'notes',
+        validate: {
+            errorFormatter: problemDetailsErrorFormatter,
+            response: Type.Unknown(),
+            request: [{ type: 'form', schema: Type.Object({ text: Type.String() }) }],
+        },
+    })
+    async createNote(form: { text: string }) {
+        return form;
+    }
+}
+
+describe('multipart validators', () => {
+    let testing: TypeboxTestingApp;
+
+    beforeAll(async () => {
+        testing = await createTypeboxTestingApp({ controllers: [UploadController] });
+    });
+
+    afterAll(() => testing.close());
+
+    it('validates fields and files', async () => {
+        const response = await testing.request({
+            method: 'POST',
+            url: '/uploads/pets',
+            ...multipart([
+                { name: 'name', value: 'Figaro' },
+                { name: 'age', value: '3' },
+                { name: 'avatar', value: 'png', filename: 'cat.png', contentType: 'image/png' },
+                { name: 'documents', value: 'a', filename: 'a.txt', contentType: 'text/plain' },
+            ]),
+        });
+
+        expect(response.body).toEqual({ name: 'Figaro', age: 3, avatar: { name: 'cat.png', type: 'image/png', size: 3 }, documents: 1 });
+    });
+
+    it('rejects files violating constraints', async () => {
+        const response = await testing.request({
+            method: 'POST',
+            url: '/uploads/pets',
+            ...multipart([
+                { name: 'name', value: 'Figaro' },
+                { name: 'age', value: '3' },
+                { name: 'avatar', value: 'not an image', filename: 'cat.txt', contentType: 'text/plain' },
+            ]),
+        });
+
+        expect(response.statusCode).toBe(400);
+        expect(response.body).toMatchObject({ errors: [{ keyword: 'mimeType', instancePath: '/avatar' }, { keyword: 'maxSize' }] });
+    });
+
+    it('rejects missing and unexpected files', async () => {
+        const missing = await testing.request({
+            method: 'POST',
+            url: '/uploads/pets',
+            ...multipart([
+                { name: 'name', value: 'Figaro' },
+                { name: 'age', value: '3' },
+            ]),
+        });
+        expect(missing.body).toMatchObject({ errors: [{ keyword: 'required', params: { missingProperty: 'avatar' } }] });
+
+        const unexpected = await testing.request({
+            method: 'POST',
+            url: '/uploads/pets',
+            ...multipart([{ name: 'other', value: 'x', filename: 'x.txt', contentType: 'text/plain' }]),
+        });
+        expect(unexpected.body).toMatchObject({ errors: [{ keyword: 'additionalProperties', params: { additionalProperty: 'other' } }] });
+    });
+
+    it('validates single files', async () => {
+        const response = await testing.request({
+            method: 'POST',
+            url: '/uploads/avatar',
+            ...multipart([{ name: 'avatar', value: 'png', filename: 'cat.png', contentType: 'image/png' }]),
+        });
+
+        expect(response.body).toEqual({ name: 'cat.png', type: 'image/png', size: 3 });
+    });
+
+    it('combines form and file validators', async () => {
+        const response = await testing.request({
+            method: 'POST',
+            url: '/uploads/profiles',
+            ...multipart([
+                { name: 'name', value: 'Figaro' },
+                { name: 'avatar', value: 'png', filename: 'cat.png', contentType: 'image/png' },
+            ]),
+        });
+        expect(response.body).toEqual({ name: 'Figaro', avatar: { name: 'cat.png', type: 'image/png', size: 3 } });
+
+        const unexpected = await testing.request({
+            method: 'POST',
+            url: '/uploads/profiles',
+            ...multipart([
+                { name: 'name', value: 'Figaro' },
+                { name: 'avatar', value: 'png', filename: 'cat.png', contentType: 'image/png' },
+                { name: 'other', value: 'x', filename: 'x.txt', contentType: 'text/plain' },
+            ]),
+        });
+        expect(unexpected.statusCode).toBe(400);
+        expect(unexpected.body).toMatchObject({ errors: [{ keyword: 'additionalProperties', params: { additionalProperty: 'other' } }] });
+    });
+
+    it('reports unexpected files of forms without files with the error formatter', async () => {
+        const response = await testing.request({
+            method: 'POST',
+            url: '/uploads/notes',
+            ...multipart([
+                { name: 'text', value: 'hi' },
+                { name: 'other', value: 'x', filename: 'x.txt', contentType: 'text/plain' },
+            ]),
+        });
+
+        expect(response.statusCode).toBe(400);
+        expect(response.headers['content-type']).toContain('application/problem+json');
+        expect(response.body).toMatchObject({ detail: 'Validation error (form)', errors: [{ pointer: '#/other' }] });
+    });
+
+    it('documents a multipart/form-data request body', () => {
+        const operation = testing.getOpenApiDocument().paths['/uploads/pets'].post;
+
+        expect(operation?.requestBody).toMatchObject({
+            content: {
+                'multipart/form-data': {
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            name: { type: 'string' },
+                            age: { type: 'integer' },
+                            avatar: { type: 'string', format: 'binary' },
+                            documents: { type: 'array', items: { type: 'string', format: 'binary' }, maxItems: 2 },
+                        },
+                        required: ['name', 'age', 'avatar'],
+                    },
+                },
+            },
+        });
+    });
+});
@@ -0,0 +1,117 @@
+import { Controller } from '@nestjs/common';
+import { type Static, Type } from '@sinclair/typebox';
+
+import { HttpEndpoint } from '../src/decorators.js';
+import { createTypeboxTestingApp, TypeboxTestingApp } from '../src/testing.js';
+import { ListQuery, Paginated } from '../src/util.js';
+
+const PetSchema = Type.Object({
+    id: Type.Integer(),
+    name: Type.String(),
+    status: Type.Union([Type.Literal('available'), Type.Literal('sold')]),
+    age: Type.Integer(),
+});
+
+const PetListQuerySchema = ListQuery(PetSchema, { sortable: ['name', 'age'], filterable: ['status', 'age'], maxLimit: 50 });
+const PetPageSchema = Paginated(PetSchema);
+
+@Controller('pets')
+class PetController {
+    @HttpEndpoint({
+        method: 'GET',
+        validate: {
+            response: PetPageSchema,
+            request: [{ type: 'query', schema: PetListQuerySchema }],
+        },
+    })
+    async listPets(query: Static<typeof PetListQuerySchema>): Promise<Static<typeof PetPageSchema>> {
+        return { items: [{ id: 1, name: JSON.stringify(query), status: 'sold', age: 3 }], total: 1 };
+    }
+}
+
+describe('Paginated', () => {
+    it('builds an offset page envelope', () => {
+        expect(Paginated(PetSchema)).toMatchObject({
+            type: 'object',
+            properties: { items: { type: 'array', items: PetSchema }, total: { type: 'integer', minimum: 0 } },
+            required: ['items', 'total'],
+        });
+    });
+
+    it('builds a cursor page envelope', () => {
+        const schema = Paginated(PetSchema, { mode: 'cursor' });
+        const page: Static<typeof schema> = { items: [], nextCursor: null };
+
+        expect(page).toBeDefined();
+        expect(schema).toMatchObject({
+            properties: { items: { type: 'array' }, nextCursor: { anyOf: [{ type: 'string' }, { type: 'null' }] } },
+            required: ['items', 'nextCursor'],
+        });
+    });
+});
+
+describe('ListQuery', () => {
+    it('derives sort and filter props from the item schema', () => {
+        const query: Static<typeof PetListQuerySchema> = { limit: 10, offset: 0, sort: ['-age', 'name'], filter: { status: 'sold' } };
+        // @ts-expect-error only sortable props
+        const unsortable: Static<typeof PetListQuerySchema> = { sort: ['id'] };
+
+        expect([query, unsortable]).toHaveLength(2);
+        expect(PetListQuerySchema.properties).toMatchObject({
+            limit: { type: 'integer', minimum: 1, maximum: 50, default: 20 },
+            offset: { type: 'integer', minimum: 0, default: 0 },
+            sort: { type: 'array', items: { anyOf: ['name', '-name', 'age', '-age'].map(name => ({ const: name })) } },
+            filter: { type: 'object', properties: { status: PetSchema.properties.status, age: { type: 'integer' } } },
+        });
+        expect(PetListQuerySchema.required).toBeUndefined();
+        expect(PetListQuerySchema.properties.filter.required).toBeUndefined();
+    });
+
+    it('uses a cursor in cursor mode and omits sort and filter by default', () => {
+        const schema = ListQuery(PetSchema, { mode: 'cursor' });
+
+        expect(Object.keys(schema.properties)).toEqual(['limit', 'cursor']);
+    });
+
+    describe('with HttpEndpoint', () => {
+        let testing: TypeboxTestingApp;
+
+        beforeAll(async () => {
+            testing = await createTypeboxTestingApp({ controllers: [PetController] });
+        });
+
+        afterAll(() => testing.close());
+
+        it('coerces list queries', async () => {
+            const response = await testing.request({
+                method: 'GET',
+                url: '/pets?limit=10&sort=-age,name&filter[status]=sold&filter[age]=3',
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse((response.body as { items: { name: string }[] }).items[0].name)).toEqual({
+                limit: 10,
+                offset: 0,
+                sort: ['-age', 'name'],
+                filter: { status: 'sold', age: 3 },
+            });
+        });
+
+        it('rejects unknown sort props and limits above the maximum', async () => {
+            expect((await testing.request({ method: 'GET', url: '/pets?sort=id' })).statusCode).toBe(400);
+            expect((await testing.request({ method: 'GET', url: '/pets?limit=51' })).statusCode).toBe(400);
+        });
+
+        it('documents the query params', () => {
+            const parameters = testing.getOpenApiDocument().paths['/pets']?.get?.parameters;
+
+            expect(parameters).toEqual(
+                expect.arrayContaining([
+                    expect.objectContaining({ name: 'limit', in: 'query', required: false }),
+                    expect.objectContaining({ name: 'sort', in: 'query', schema: expect.objectContaining({ type: 'array' }) }),
+                    expect.objectContaining({ name: 'filter', in: 'query', style: 'deepObject', explode: true }),
+                ])
+            );
+        });
+    });
+});
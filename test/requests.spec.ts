@@ -0,0 +1,104 @@
+import { Controller } from '@nestjs/common';
+import { type Static, Type } from '@sinclair/typebox';
+
+import { HttpEndpoint } from '../src/decorators.js';
+import { problemDetailsErrorFormatter } from '../src/error-formatters.js';
+import { createTypeboxTestingApp, TypeboxTestingApp } from '../src/testing.js';
+
+const SearchSchema = Type.Object({
+    ids: Type.Optional(Type.Array(Type.Integer())),
+    filter: Type.Optional(Type.Object({ status: Type.Optional(Type.Union([Type.Literal('available'), Type.Literal('sold')])) })),
+    limit: Type.Integer({ default: 20 }),
+});
+
+const SignupSchema = Type.Object({
+    name: Type.String(),
+    email: Type.String({ format: 'email' }),
+    age: Type.Integer(),
+    tags: Type.Array(Type.String()),
+});
+
+@Controller('pets')
+class PetController {
+    @HttpEndpoint({
+        method: 'GET',
+        path: 'version',
+        validate: { request: [{ name: 'X-Api-Version', type: 'header', schema: Type.Integer(), required: true }] },
+    })
+    async getVersion(apiVersion: number) {
+        return { apiVersion } as never;
+    }
+
+    @HttpEndpoint({ method: 'GET', validate: { response: SearchSchema, request: [{ type: 'query', schema: SearchSchema }] } })
+    async searchPets(query: Static<typeof SearchSchema>) {
+        return query;
+    }
+
+    @HttpEndpoint({
+        method: 'POST',
+        path: 'signup',
+        validate: { request: [{ type: 'body', schema: SignupSchema, allErrors: { maxErrors: 2 } }] },
+    })
+    async signup(data: Static<typeof SignupSchema>) {
+        return data as never;
+    }
+
+    @HttpEndpoint({
+        method: 'POST',
+        path: 'problem',
+        validate: { errorFormatter: problemDetailsErrorFormatter, request: [{ type: 'body', schema: SignupSchema }] },
+    })
+    async problem(data: Static<typeof SignupSchema>) {
+        return data as never;
+    }
+}
+
+describe('request validators', () => {
+    let testing: TypeboxTestingApp;
+
+    beforeAll(async () => {
+        testing = await createTypeboxTestingApp({ controllers: [PetController] });
+    });
+
+    afterAll(() => testing.close());
+
+    it('validates and coerces headers case-insensitively', async () => {
+        const response = await testing.request({ method: 'GET', url: '/pets/version', headers: { 'x-api-version': '2' } });
+        expect(response.body).toEqual({ apiVersion: 2 });
+
+        const missing = await testing.request({ method: 'GET', url: '/pets/version' });
+        expect(missing.statusCode).toBe(400);
+        expect(missing.body).toMatchObject({ message: 'Validation error (header)' });
+    });
+
+    it('validates whole query objects with bracket notation and repeated keys', async () => {
+        const response = await testing.request({ method: 'GET', url: '/pets?filter[status]=sold&ids=1&ids=2' });
+        expect(response.body).toEqual({ filter: { status: 'sold' }, ids: [1, 2], limit: 20 });
+
+        const invalid = await testing.request({ method: 'GET', url: '/pets?filter[status]=lost' });
+        expect(invalid.statusCode).toBe(400);
+        expect(invalid.body).toMatchObject({ message: 'Validation error (query)' });
+    });
+
+    it('reports up to maxErrors errors in bounded allErrors mode', async () => {
+        const response = await testing.request({ method: 'POST', url: '/pets/signup', payload: { email: 'nope', age: 'old' } });
+
+        expect(response.statusCode).toBe(400);
+        expect(response.body).toMatchObject({ message: 'Validation error (body)', truncated: true });
+        expect((response.body as { errors: unknown[] }).errors).toHaveLength(2);
+    });
+
+    it('responds with problem details', async () => {
+        const response = await testing.request({ method: 'POST', url: '/pets/problem', payload: { name: 'Tom' } });
+
+        expect(response.statusCode).toBe(400);
+        expect(response.headers['content-type']).toContain('application/problem+json');
+        expect(response.body).toEqual({
+            type: 'about:blank',
+            title: 'Bad Request',
+            status: 400,
+            detail: 'Validation error (body)',
+            errors: [{ pointer: '#/email', detail: 'is required' }],
+        });
+    });
+});
@@ -0,0 +1,212 @@
+import { ArgumentsHost, Catch, Controller, ExceptionFilter, NotFoundException, Res, UseFilters } from '@nestjs/common';
+import { Type } from '@sinclair/typebox';
+
+import { HttpEndpoint } from '../src/decorators.js';
+import { createTypeboxTestingApp, TypeboxTestingApp } from '../src/testing.js';
+
+const DateTime = Type.Transform(Type.String({ format: 'date-time' }))
+    .Decode(value => new Date(value))
+    .Encode(value => value.toISOString());
+
+const PetSchema = Type.Object({ id: Type.Integer(), name: Type.String() });
+const NotFoundSchema = Type.Object({ statusCode: Type.Literal(404), message: Type.String() });
+
+@Catch(NotFoundException)
+class TeapotFilter implements ExceptionFilter {
+    catch(exception: NotFoundException, host: ArgumentsHost) {
+        host.switchToHttp().getResponse().status(418).json({ caught: exception.getResponse() });
+    }
+}
+
+@Controller('pets')
+class PetController {
+    @HttpEndpoint({
+        method: 'GET',
+        path: ':id',
+        validate: {
+            response: { 200: PetSchema, 404: NotFoundSchema },
+            request: [{ name: 'id', type: 'param', schema: Type.Integer() }],
+        },
+    })
+    async getPet(id: number) {
+        if (id !== 1) throw new NotFoundException({ statusCode: 404, message: 'nope', secret: 'internal' });
+        return { id, name: 'Figaro' };
+    }
+}
+
+@Controller('owners')
+class OwnerController {
+    @HttpEndpoint({ method: 'GET', validate: { response: Type.Object({ name: Type.String(), age: Type.Integer() }) } })
+    async getOwner() {
+        return { name: 'a', secret: 's' } as never;
+    }
+}
+
+@Controller('shapes')
+class ShapeController {
+    @HttpEndpoint({
+        method: 'GET',
+        validate: {
+            response: Type.Union([
+                Type.Object({ kind: Type.Literal('a'), n: Type.Number() }),
+                Type.Object({ kind: Type.Literal('b'), s: Type.String() }),
+            ]),
+        },
+    })
+    async getShape() {
+        return { kind: 'a', n: 'bad', secret: 'pw' } as never;
+    }
+}
+
+@Controller('events')
+class EventController {
+    @HttpEndpoint({
+        method: 'POST',
+        validate: {
+            response: Type.Object({ at: DateTime, isDate: Type.Boolean() }),
+            request: [{ type: 'body', schema: Type.Object({ at: DateTime }) }],
+        },
+    })
+    async createEvent(data: { at: Date }) {
+        return { at: new Date(data.at.getTime() + 1000), isDate: data.at instanceof Date };
+    }
+
+    @HttpEndpoint({
+        method: 'GET',
+        path: ':location',
+        validate: {
+            response: Type.Object({ ok: Type.Boolean() }),
+            responseHeaders: Type.Object({ Location: Type.String({ minLength: 2 }) }),
+            request: [{ name: 'location', type: 'param' }],
+        },
+    })
+    async getEvent(location: string, @Res({ passthrough: true }) res: { setHeader(name: string, value: string): void }) {
+        res.setHeader('location', location === 'none' ? '' : `/${location}`);
+        return { ok: true };
+    }
+}
+
+@Controller('filtered-pets')
+@UseFilters(TeapotFilter)
+class FilteredPetController extends PetController {}
+
+describe('response schemas by status code', () => {
+    let testing: TypeboxTestingApp;
+
+    beforeAll(async () => {
+        testing = await createTypeboxTestingApp({ controllers: [PetController, FilteredPetController] });
+    });
+
+    afterAll(() => testing.close());
+
+    it('validates and strips the body of thrown exceptions', async () => {
+        const response = await testing.request({ method: 'GET', url: '/pets/2' });
+
+        expect(response.statusCode).toBe(404);
+        expect(response.body).toEqual({ statusCode: 404, message: 'nope' });
+    });
+
+    it('keeps the exception class for exception filters', async () => {
+        const response = await testing.request({ method: 'GET', url: '/filtered-pets/2' });
+
+        expect(response.statusCode).toBe(418);
+        expect(response.body).toEqual({ caught: { statusCode: 404, message: 'nope' } });
+    });
+});
+
+describe('response validation modes', () => {
+    const reporter = jest.fn();
+
+    afterEach(() => reporter.mockClear());
+
+    it('fails invalid responses with the configured status', async () => {
+        const testing = await createTypeboxTestingApp({
+            controllers: [OwnerController],
+            typebox: { responseValidationStatus: 502, responseValidationReporter: reporter },
+        });
+        const response = await testing.request({ method: 'GET', url: '/owners' });
+        await testing.close();
+
+        expect(response.statusCode).toBe(502);
+        expect(response.body).toEqual({ statusCode: 502, message: 'Response validation error' });
+        expect(reporter).toHaveBeenCalledWith({
+            name: 'GetOwnerResponse',
+            handler: 'OwnerController.getOwner',
+            statusCode: 200,
+            errors: [expect.objectContaining({ keyword: 'required', params: { missingProperty: 'age' } })],
+            data: { name: 'a', secret: 's' },
+        });
+    });
+
+    it('reports invalid responses in log mode, still stripping unknown props', async () => {
+        const testing = await createTypeboxTestingApp({
+            controllers: [OwnerController],
+            typebox: { responseValidation: 'log', responseValidationReporter: reporter },
+        });
+        const response = await testing.request({ method: 'GET', url: '/owners' });
+        await testing.close();
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body).toEqual({ name: 'a' });
+        expect(reporter).toHaveBeenCalledTimes(1);
+    });
+
+    it('strips unknown props of invalid union responses in log mode', async () => {
+        const testing = await createTypeboxTestingApp({
+            controllers: [ShapeController],
+            typebox: { responseValidation: 'log', responseValidationReporter: reporter },
+        });
+        const response = await testing.request({ method: 'GET', url: '/shapes' });
+        await testing.close();
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body).toEqual({ kind: 'a', n: 'bad' });
+        expect(reporter).toHaveBeenCalledTimes(1);
+    });
+
+    it('only strips unknown props in off mode', async () => {
+        const testing = await createTypeboxTestingApp({
+            controllers: [OwnerController, ShapeController],
+            typebox: { responseValidation: 'off', responseValidationReporter: reporter },
+        });
+        const response = await testing.request({ method: 'GET', url: '/owners' });
+        const union = await testing.request({ method: 'GET', url: '/shapes' });
+        await testing.close();
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body).toEqual({ name: 'a' });
+        expect(union.body).toEqual({ kind: 'a', n: 'bad' });
+        expect(reporter).not.toHaveBeenCalled();
+    });
+});
+
+describe('transforms and response headers', () => {
+    let testing: TypeboxTestingApp;
+
+    beforeAll(async () => {
+        testing = await createTypeboxTestingApp({ controllers: [EventController] });
+    });
+
+    afterAll(() => testing.close());
+
+    it('decodes requests and encodes responses', async () => {
+        const response = await testing.request({ method: 'POST', url: '/events', payload: { at: '2024-01-01T00:00:00.000Z' } });
+
+        expect(response.body).toEqual({ at: '2024-01-01T00:00:01.000Z', isDate: true });
+    });
+
+    it('validates response headers case-insensitively', async () => {
+        const valid = await testing.request({ method: 'GET', url: '/events/1' });
+        expect(valid.statusCode).toBe(200);
+        expect(valid.headers['location']).toBe('/1');
+
+        const invalid = await testing.request({ method: 'GET', url: '/events/none' });
+        expect(invalid.statusCode).toBe(500);
+    });
+
+    it('documents response headers', () => {
+        const operation = testing.getOpenApiDocument().paths['/events/{location}']?.get;
+
+        expect(operation?.responses['200']).toMatchObject({ headers: { Location: { required: true, schema: { type: 'string' } } } });
+    });
+});
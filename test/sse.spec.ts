@@ -0,0 +1,117 @@
+import { Controller, Sse } from '@nestjs/common';
+import { Type } from '@sinclair/typebox';
+import { of } from 'rxjs';
+
+import { SseEndpoint, Validate } from '../src/decorators.js';
+import { createTypeboxTestingApp, TypeboxTestingApp } from '../src/testing.js';
+
+const PriceSchema = Type.Object({ symbol: Type.String(), price: Type.Number() });
+
+const parseEvents = (payload: string) =>
+    payload
+        .trim()
+        .split('\n\n')
+        .map(message =>
+            Object.fromEntries(message.split('\n').map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]))
+        );
+
+@Controller('stream')
+class StreamController {
+    @SseEndpoint({
+        path: 'prices/:symbol',
+        validate: {
+            events: PriceSchema,
+            request: [{ type: 'param', name: 'symbol', schema: Type.String() }],
+        },
+    })
+    prices(symbol: string) {
+        return of({ data: { symbol, price: 1.5, internal: true } }, { data: { symbol, price: 2 }, id: '2' });
+    }
+
+    @SseEndpoint({ path: 'generated', validate: { events: PriceSchema } })
+    async *generated() {
+        yield { data: { symbol: 'CAT', price: 1 } };
+        yield { data: { symbol: 'CAT', price: 2 } };
+    }
+
+    @Sse('invalid')
+    @Validate({ events: PriceSchema })
+    invalid() {
+        return of(
+            { data: { symbol: 'CAT', price: 1 } },
+            { data: { symbol: 'CAT', price: 'free' as never } },
+            { data: { symbol: 'CAT', price: 3 } }
+        );
+    }
+}
+
+describe('server-sent events', () => {
+    let testing: TypeboxTestingApp;
+
+    beforeAll(async () => {
+        testing = await createTypeboxTestingApp({ controllers: [StreamController] });
+    });
+
+    afterAll(() => testing.close());
+
+    it('validates and strips the data of each event', async () => {
+        const response = await testing.request({ method: 'GET', url: '/stream/prices/CAT' });
+
+        expect(response.headers['content-type']).toMatch(/^text\/event-stream/);
+        expect(parseEvents(response.payload)).toEqual([
+            { id: '1', data: '{"symbol":"CAT","price":1.5}' },
+            { id: '2', data: '{"symbol":"CAT","price":2}' },
+        ]);
+    });
+
+    it('streams async iterables', async () => {
+        const response = await testing.request({ method: 'GET', url: '/stream/generated' });
+
+        expect(parseEvents(response.payload).map(event => JSON.parse(event.data))).toEqual([
+            { symbol: 'CAT', price: 1 },
+            { symbol: 'CAT', price: 2 },
+        ]);
+    });
+
+    it('ends the stream with an error event on invalid data', async () => {
+        const response = await testing.request({ method: 'GET', url: '/stream/invalid' });
+
+        expect(parseEvents(response.payload)).toEqual([
+            { id: '1', data: '{"symbol":"CAT","price":1}' },
+            { id: '2', event: 'error', data: 'Response validation error' },
+        ]);
+    });
+
+    it('documents the events as text/event-stream', () => {
+        const operation = testing.getOpenApiDocument().paths['/stream/prices/{symbol}'].get;
+
+        expect(operation?.responses).toMatchObject({
+            '200': { content: { 'text/event-stream': { schema: { $ref: '#/components/schemas/PricesEvent' } } } },
+        });
+    });
+});
+
+describe('server-sent events in log mode', () => {
+    let testing: TypeboxTestingApp;
+    const reporter = jest.fn();
+
+    beforeAll(async () => {
+        testing = await createTypeboxTestingApp({
+            controllers: [StreamController],
+            typebox: { responseValidation: 'log', responseValidationReporter: reporter },
+        });
+    });
+
+    afterAll(() => testing.close());
+
+    it('reports invalid events and sends them unvalidated', async () => {
+        const response = await testing.request({ method: 'GET', url: '/stream/invalid' });
+
+        expect(parseEvents(response.payload).map(event => JSON.parse(event.data))).toEqual([
+            { symbol: 'CAT', price: 1 },
+            { symbol: 'CAT', price: 'free' },
+            { symbol: 'CAT', price: 3 },
+        ]);
+        expect(reporter).toHaveBeenCalledWith(expect.objectContaining({ name: 'InvalidEvent', handler: 'StreamController.invalid' }));
+    });
+});
@@ -0,0 +1,126 @@
+import { Controller } from '@nestjs/common';
+import { type Static, Type } from '@sinclair/typebox';
+
+import { HttpEndpoint } from '../src/decorators.js';
+import { createTypeboxTestingApp, TypeboxTestingApp } from '../src/testing.js';
+
+const OwnerSchema = Type.Object({ name: Type.String() }, { $id: 'Owner' });
+
+const PetSchema = Type.Object(
+    {
+        id: Type.Number(),
+        name: Type.String(),
+        owner: OwnerSchema,
+        previousOwners: Type.Optional(Type.Array(Type.Ref(OwnerSchema))),
+    },
+    { $id: 'Pet' }
+);
+
+const CreatePetSchema = Type.Omit(PetSchema, ['id'], { $id: 'CreatePet' });
+
+@Controller('pets')
+class PetController {
+    @HttpEndpoint({
+        method: 'GET',
+        path: ':id',
+        validate: {
+            response: PetSchema,
+            request: [{ name: 'id', type: 'param', schema: Type.Number() }],
+        },
+    })
+    async getPet(id: number) {
+        return { id, name: 'Figaro', owner: { name: 'Geppetto' }, previousOwners: [{ name: 'Pinocchio', nickname: 'internal' }] };
+    }
+
+    @HttpEndpoint({
+        method: 'POST',
+        validate: {
+            response: PetSchema,
+            request: [{ type: 'body', schema: CreatePetSchema }],
+        },
+    })
+    async createPet(data: Static<typeof CreatePetSchema>) {
+        return { id: 1, ...data };
+    }
+
+    @HttpEndpoint({
+        method: 'GET',
+        validate: { response: Type.Array(PetSchema) },
+    })
+    async listPets() {
+        return [];
+    }
+}
+
+describe('patchNestJsSwagger', () => {
+    let testing: TypeboxTestingApp;
+
+    beforeAll(async () => {
+        testing = await createTypeboxTestingApp({ controllers: [PetController] });
+    });
+
+    afterAll(() => testing.close());
+
+    it('declares schemas with an $id once and references them', () => {
+        const document = testing.getOpenApiDocument();
+        const schemas = document.components?.schemas ?? {};
+
+        expect(Object.keys(schemas).sort()).toEqual(['CreatePet', 'ListPetsResponse', 'Owner', 'Pet']);
+        expect(schemas['Pet']).toEqual({
+            type: 'object',
+            properties: {
+                id: { type: 'number' },
+                name: { type: 'string' },
+                owner: { $ref: '#/components/schemas/Owner' },
+                previousOwners: { type: 'array', items: { $ref: '#/components/schemas/Owner' } },
+            },
+            required: ['id', 'name', 'owner'],
+        });
+        expect(schemas['ListPetsResponse']).toEqual({ type: 'array', items: { $ref: '#/components/schemas/Pet' } });
+
+        expect(document.paths['/pets/{id}']?.get?.responses['200']).toMatchObject({
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+        });
+        expect(document.paths['/pets']?.post?.requestBody).toMatchObject({
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/CreatePet' } } },
+        });
+    });
+
+    it('validates nested Type.Ref() schemas', async () => {
+        const created = await testing.request({
+            method: 'POST',
+            url: '/pets',
+            payload: { name: 'Tom', owner: { name: 'Jerry' }, previousOwners: [{ name: 'Spike' }] },
+        });
+        expect(created.statusCode).toBe(200);
+
+        const rejected = await testing.request({
+            method: 'POST',
+            url: '/pets',
+            payload: { name: 'Tom', owner: { name: 'Jerry' }, previousOwners: [{}] },
+        });
+        expect(rejected.statusCode).toBe(400);
+
+        const response = await testing.request({ method: 'GET', url: '/pets/1' });
+        expect(response.body).toEqual({ id: 1, name: 'Figaro', owner: { name: 'Geppetto' }, previousOwners: [{ name: 'Pinocchio' }] });
+    });
+
+    it('rejects different schemas declared under the same name', async () => {
+        @Controller('conflicts')
+        class ConflictingController {
+            @HttpEndpoint({ method: 'GET', path: 'a', validate: { response: Type.String({ $id: 'Conflict' }) } })
+            async a() {
+                return '';
+            }
+
+            @HttpEndpoint({ method: 'GET', path: 'b', validate: { response: Type.Number({ $id: 'Conflict' }) } })
+            async b() {
+                return 0;
+            }
+        }
+
+        const conflicting = await createTypeboxTestingApp({ controllers: [ConflictingController] });
+        expect(() => conflicting.getOpenApiDocument()).toThrow('Swagger schema "Conflict" is declared by different schemas.');
+        await conflicting.close();
+    });
+});
@@ -0,0 +1,133 @@
+import { Controller } from '@nestjs/common';
+import { type Static, Type } from '@sinclair/typebox';
+
+import { HttpEndpoint } from '../src/decorators.js';
+import { createTypeboxTestingApp, TypeboxTestingApp } from '../src/testing.js';
+
+const PetSchema = Type.Object({
+    id: Type.Number(),
+    name: Type.String({ minLength: 1 }),
+    ownerPhone: Type.Optional(Type.String({ format: 'e164' })),
+});
+
+const PetQuerySchema = Type.Object({
+    active: Type.Optional(Type.Boolean()),
+    ids: Type.Optional(Type.Array(Type.Integer())),
+});
+
+@Controller('pets')
+class PetController {
+    @HttpEndpoint({
+        method: 'GET',
+        path: ':id',
+        validate: {
+            response: PetSchema,
+            request: [{ name: 'id', type: 'param', schema: Type.Number() }],
+        },
+    })
+    async getPet(id: number) {
+        return { id, name: 'Figaro', owner: 'internal' };
+    }
+
+    @HttpEndpoint({
+        method: 'POST',
+        validate: {
+            response: PetSchema,
+            request: [{ type: 'body', schema: Type.Omit(PetSchema, ['id']) }],
+        },
+    })
+    async createPet(data: { name: string }) {
+        return { id: 1, ...data };
+    }
+
+    @HttpEndpoint({
+        method: 'GET',
+        validate: {
+            response: PetQuerySchema,
+            request: [{ type: 'query', schema: PetQuerySchema }],
+        },
+    })
+    async listPets(query: Static<typeof PetQuerySchema>) {
+        return query;
+    }
+
+    @HttpEndpoint({
+        method: 'GET',
+        path: 'broken/:id',
+        validate: {
+            response: PetSchema,
+            request: [{ name: 'id', type: 'param', schema: Type.Number() }],
+        },
+    })
+    async getBrokenPet(id: number) {
+        return { id } as never;
+    }
+}
+
+describe('createTypeboxTestingApp', () => {
+    let testing: TypeboxTestingApp;
+
+    beforeAll(async () => {
+        testing = await createTypeboxTestingApp({ controllers: [PetController] });
+    });
+
+    afterAll(() => testing.close());
+
+    it('coerces request params and strips unknown response props', async () => {
+        const response = await testing.request({ method: 'GET', url: '/pets/7' });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body).toEqual({ id: 7, name: 'Figaro' });
+    });
+
+    it('rejects invalid request params', async () => {
+        const response = await testing.request({ method: 'GET', url: '/pets/abc' });
+
+        expect(response.statusCode).toBe(400);
+        expect(response.body).toMatchObject({ statusCode: 400, message: 'Validation error (param)' });
+    });
+
+    it('coerces query values according to the schema', async () => {
+        const csv = await testing.request({ method: 'GET', url: '/pets?active=false&ids=1,2' });
+        expect(csv.body).toEqual({ active: false, ids: [1, 2] });
+
+        const repeated = await testing.request({ method: 'GET', url: '/pets?ids=1&ids=2' });
+        expect(repeated.body).toEqual({ ids: [1, 2] });
+
+        const invalid = await testing.request({ method: 'GET', url: '/pets?active=maybe' });
+        expect(invalid.statusCode).toBe(400);
+    });
+
+    it('validates request bodies', async () => {
+        const created = await testing.request({ method: 'POST', url: '/pets', payload: { name: 'Tom' } });
+        expect(created.statusCode).toBe(200);
+        expect(created.body).toEqual({ id: 1, name: 'Tom' });
+
+        const rejected = await testing.request({ method: 'POST', url: '/pets', payload: { name: '' } });
+        expect(rejected.statusCode).toBe(400);
+    });
+
+    it('responds with a server error for invalid responses', async () => {
+        const response = await testing.request({ method: 'GET', url: '/pets/broken/7' });
+
+        expect(response.statusCode).toBe(500);
+        expect(response.body).toEqual({ statusCode: 500, message: 'Response validation error' });
+    });
+
+    it('documents schemas and parameters', () => {
+        const document = testing.getOpenApiDocument();
+        const operation = document.paths['/pets/{id}']?.get;
+
+        expect(operation?.parameters).toEqual([
+            expect.objectContaining({ name: 'id', in: 'path', required: true, schema: expect.objectContaining({ type: 'number' }) }),
+        ]);
+        expect(operation?.responses['200']).toMatchObject({
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/GetPetResponse' } } },
+        });
+        expect(document.components?.schemas?.['GetPetResponse']).toMatchObject({
+            type: 'object',
+            required: ['id', 'name'],
+            properties: { ownerPhone: { type: 'string', format: 'e164' } },
+        });
+    });
+});
@@ -0,0 +1,185 @@
+import { Type } from '@sinclair/typebox';
+
+import { checkPayloadBudget, coerceToNumber, coerceType, coerceValue, expandQueryKeys, Nullable, removeUnknownProps } from '../src/util.js';
+
+describe('coerceToNumber', () => {
+    it('converts numeric strings', () => {
+        expect(coerceToNumber('42')).toBe(42);
+        expect(coerceToNumber('4.2')).toBe(4.2);
+        expect(coerceToNumber('4.8', true)).toBe(4);
+    });
+
+    it('converts booleans and null', () => {
+        expect(coerceToNumber(true)).toBe(1);
+        expect(coerceToNumber(false)).toBe(0);
+        expect(coerceToNumber(null)).toBe(0);
+    });
+
+    it('leaves non-numeric values untouched', () => {
+        expect(coerceToNumber('abc')).toBe('abc');
+        expect(coerceToNumber('Infinity')).toBe('Infinity');
+        expect(coerceToNumber(undefined)).toBeUndefined();
+    });
+});
+
+describe('coerceType', () => {
+    it('coerces numbers and integers', () => {
+        expect(coerceType('number', '1.5')).toBe(1.5);
+        expect(coerceType('integer', '1.5')).toBe(1);
+    });
+
+    it('coerces booleans and nulls', () => {
+        expect(coerceType('boolean', 'true')).toBe(true);
+        expect(coerceType('boolean', '0')).toBe(false);
+        expect(coerceType('boolean', 'yes')).toBe('yes');
+        expect(coerceType('null', '')).toBeNull();
+    });
+
+    it('passes through other types', () => {
+        expect(coerceType('string', 1)).toBe(1);
+    });
+});
+
+describe('coerceValue', () => {
+    it('splits comma separated and wraps single array values', () => {
+        const schema = Type.Array(Type.Integer());
+        expect(coerceValue(schema, '1,2,3')).toEqual([1, 2, 3]);
+        expect(coerceValue(schema, ['1', '2'])).toEqual([1, 2]);
+        expect(coerceValue(schema, '')).toEqual([]);
+    });
+
+    it('coerces nested objects', () => {
+        const schema = Type.Object({
+            active: Type.Boolean(),
+            filter: Type.Object({ minAge: Type.Number(), tags: Type.Array(Type.String()) }),
+        });
+        expect(coerceValue(schema, { active: 'false', filter: { minAge: '3', tags: 'a,b' }, other: '1' })).toEqual({
+            active: false,
+            filter: { minAge: 3, tags: ['a', 'b'] },
+            other: '1',
+        });
+    });
+
+    it('picks the most specific union member', () => {
+        expect(coerceValue(Nullable(Type.Number()), 'null')).toBeNull();
+        expect(coerceValue(Nullable(Type.Number()), '4')).toBe(4);
+        // values already matching a member are kept as is
+        expect(coerceValue(Type.Union([Type.String(), Type.Number()]), '4')).toBe('4');
+        expect(coerceValue(Type.Union([Type.Literal('all'), Type.Integer()]), 'all')).toBe('all');
+        expect(coerceValue(Type.Union([Type.Boolean(), Type.Array(Type.Number())]), '1,2')).toEqual([1, 2]);
+    });
+
+    it('leaves values that cannot be coerced untouched', () => {
+        expect(coerceValue(Type.Number(), 'abc')).toBe('abc');
+        expect(coerceValue(Type.Object({ a: Type.Number() }), 'abc')).toBe('abc');
+        expect(coerceValue(Type.Number(), undefined)).toBeUndefined();
+    });
+});
+
+describe('removeUnknownProps', () => {
+    const PetSchema = Type.Object({
+        id: Type.Number(),
+        owner: Type.Object({ name: Type.String() }),
+        tags: Type.Array(Type.Object({ label: Type.String() })),
+    });
+
+    it('strips nested objects and array items', () => {
+        expect(
+            removeUnknownProps(PetSchema, {
+                id: 1,
+                microchip: 'x',
+                owner: { name: 'Jon', ssn: 'x' },
+                tags: [{ label: 'cute', internal: true }],
+            })
+        ).toEqual({ id: 1, owner: { name: 'Jon' }, tags: [{ label: 'cute' }] });
+    });
+
+    it('keeps only the props of the matching union branch', () => {
+        const schema = Type.Union([
+            Type.Object({ type: Type.Literal('cat'), lives: Type.Number() }),
+            Type.Object({ type: Type.Literal('dog'), breed: Type.String() }),
+        ]);
+
+        expect(removeUnknownProps(schema, { type: 'dog', breed: 'pug', lives: 9 })).toEqual({ type: 'dog', breed: 'pug' });
+        expect(removeUnknownProps(Type.Array(schema), [{ type: 'cat', lives: 9, breed: 'x' }])).toEqual([{ type: 'cat', lives: 9 }]);
+    });
+
+    it('keeps the props known to any union branch when none matches', () => {
+        const schema = Type.Union([
+            Type.Object({ kind: Type.Literal('a'), n: Type.Number(), owner: Type.Object({ name: Type.String() }) }),
+            Type.Object({ kind: Type.Literal('b'), s: Type.String() }),
+        ]);
+
+        expect(removeUnknownProps(schema, { kind: 'a', n: 'bad', secret: 'pw', owner: { name: 'Jon', ssn: 'x' } })).toEqual({
+            kind: 'a',
+            n: 'bad',
+            owner: { name: 'Jon' },
+        });
+        expect(removeUnknownProps(Type.Union([Type.Array(schema), Type.Null()]), [{ kind: 'c', s: 1, secret: 'pw' }])).toEqual([
+            { kind: 'c', s: 1 },
+        ]);
+    });
+
+    it('prefers the branch knowing most props', () => {
+        const schema = Type.Union([Type.Object({ id: Type.Number() }), Type.Object({ id: Type.Number(), name: Type.String() })]);
+        expect(removeUnknownProps(schema, { id: 1, name: 'x', secret: 'y' })).toEqual({ id: 1, name: 'x' });
+    });
+
+    it('merges intersected objects', () => {
+        const schema = Type.Intersect([Type.Object({ id: Type.Number() }), Type.Object({ owner: Type.Object({ name: Type.String() }) })]);
+        expect(removeUnknownProps(schema, { id: 1, owner: { name: 'Jon', ssn: 'x' }, secret: 'y' })).toEqual({
+            id: 1,
+            owner: { name: 'Jon' },
+        });
+    });
+
+    it('follows recursive refs', () => {
+        const NodeSchema = Type.Recursive(This => Type.Object({ id: Type.Number(), children: Type.Array(This) }));
+        expect(removeUnknownProps(NodeSchema, { id: 1, x: 1, children: [{ id: 2, x: 2, children: [] }] })).toEqual({
+            id: 1,
+            children: [{ id: 2, children: [] }],
+        });
+    });
+
+    it('keeps records and untyped values', () => {
+        const schema = Type.Object({ labels: Type.Record(Type.String(), Type.Object({ a: Type.Number() })), meta: Type.Unknown() });
+        expect(removeUnknownProps(schema, { labels: { x: { a: 1, b: 2 } }, meta: { any: 'thing' } })).toEqual({
+            labels: { x: { a: 1 } },
+            meta: { any: 'thing' },
+        });
+    });
+});
+
+describe('expandQueryKeys', () => {
+    it('expands bracket notation into nested objects', () => {
+        expect(expandQueryKeys({ 'filter[status]': 'a', 'filter[type]': 'b', 'a[b][c]': 'd' })).toEqual({
+            filter: { status: 'a', type: 'b' },
+            a: { b: { c: 'd' } },
+        });
+    });
+
+    it('appends "[]" keys to arrays', () => {
+        expect(expandQueryKeys({ 'ids[]': ['1', '2'], 'tags[]': 'x' })).toEqual({ ids: ['1', '2'], tags: ['x'] });
+    });
+
+    it('keeps plain keys and repeated values', () => {
+        expect(expandQueryKeys({ limit: '10', ids: ['1', '2'] })).toEqual({ limit: '10', ids: ['1', '2'] });
+    });
+});
+
+describe('checkPayloadBudget', () => {
+    const budget = { maxArrayLength: 2, maxDepth: 2 };
+
+    it('accepts payloads within budget', () => {
+        expect(checkPayloadBudget({ a: { b: 1 }, c: [1, 2] }, budget)).toBeUndefined();
+        expect(checkPayloadBudget('string', budget)).toBeUndefined();
+    });
+
+    it('rejects long arrays', () => {
+        expect(checkPayloadBudget({ c: [1, 2, 3] }, budget)).toMatchObject({ keyword: 'maxArrayLength', instancePath: '/c' });
+    });
+
+    it('rejects deeply nested payloads', () => {
+        expect(checkPayloadBudget({ a: { b: { c: 1 } } }, budget)).toMatchObject({ keyword: 'maxDepth', instancePath: '/a/b' });
+    });
+});
@@ -0,0 +1,156 @@
+import { Controller, Version, VERSION_NEUTRAL, VersioningType } from '@nestjs/common';
+import { DocumentBuilder } from '@nestjs/swagger';
+import { Type } from '@sinclair/typebox';
+
+import { HttpEndpoint } from '../src/decorators.js';
+import { createTypeboxTestingApp, TypeboxTestingApp } from '../src/testing.js';
+import { createVersionedOpenApiDocuments, resolveRequestVersion } from '../src/versioning.js';
+
+const PetV1Schema = Type.Object({ id: Type.Integer(), name: Type.String() });
+const PetV2Schema = Type.Object({ id: Type.Integer(), firstName: Type.String(), lastName: Type.String() });
+
+const pet = { id: 1, name: 'Figaro Cat', firstName: 'Figaro', lastName: 'Cat' };
+
+@Controller('pets')
+class PetController {
+    @Version(['1', '2'])
+    @HttpEndpoint({
+        method: 'GET',
+        path: ':id',
+        validate: {
+            response: { schema: { '1': PetV1Schema, '2': PetV2Schema } },
+            request: [{ name: 'id', type: 'param', schema: Type.Integer() }],
+        },
+    })
+    async getPet(id: number) {
+        return { ...pet, id };
+    }
+
+    @Version(['1', '2'])
+    @HttpEndpoint({
+        method: 'POST',
+        validate: {
+            response: { schema: { '1': PetV1Schema, '2': PetV2Schema } },
+            request: [{ type: 'body', schema: { '1': Type.Omit(PetV1Schema, ['id']), '2': Type.Omit(PetV2Schema, ['id']) } }],
+        },
+    })
+    async createPet(data: { name: string } | { firstName: string; lastName: string }) {
+        return 'name' in data ? { id: 2, name: data.name } : { id: 2, ...data };
+    }
+
+    @Version('2')
+    @HttpEndpoint({ method: 'DELETE', path: ':id', validate: { request: [{ name: 'id', type: 'param', schema: Type.Integer() }] } })
+    async deletePet(id: number) {
+        return { id } as never;
+    }
+}
+
+@Controller('owners')
+class OwnerController {
+    @Version(VERSION_NEUTRAL)
+    @HttpEndpoint({ method: 'GET', validate: { response: { schema: { '1': PetV1Schema, '2': PetV2Schema } } } })
+    async getOwner() {
+        return pet;
+    }
+}
+
+describe('resolveRequestVersion', () => {
+    it('resolves the version of each versioning type', () => {
+        const headers = { 'x-api-version': '2', accept: 'application/json;v=3' };
+
+        expect(resolveRequestVersion({ url: '/api/v2/pets?v=1', headers }, { type: VersioningType.URI }, ['1', '2'])).toBe('2');
+        expect(resolveRequestVersion({ headers }, { type: VersioningType.HEADER, header: 'X-API-Version' })).toBe('2');
+        expect(resolveRequestVersion({ headers }, { type: VersioningType.MEDIA_TYPE, key: 'v=' })).toBe('3');
+        expect(resolveRequestVersion({ headers }, { type: VersioningType.CUSTOM, extractor: () => ['3', '1'] }, ['1', '2'])).toBe('1');
+        expect(resolveRequestVersion({ headers: {} }, { type: VersioningType.HEADER, header: 'X-API-Version', defaultVersion: '1' })).toBe(
+            '1'
+        );
+    });
+});
+
+describe('versioned schemas', () => {
+    describe('with URI versioning', () => {
+        let testing: TypeboxTestingApp;
+
+        beforeAll(async () => {
+            testing = await createTypeboxTestingApp({ controllers: [PetController], versioning: { type: VersioningType.URI } });
+        });
+
+        afterAll(() => testing.close());
+
+        it('validates responses against the schema of the request version', async () => {
+            expect((await testing.request({ method: 'GET', url: '/v1/pets/7' })).body).toEqual({ id: 7, name: 'Figaro Cat' });
+            expect((await testing.request({ method: 'GET', url: '/v2/pets/7' })).body).toEqual({
+                id: 7,
+                firstName: 'Figaro',
+                lastName: 'Cat',
+            });
+        });
+
+        it('validates requests against the schema of the request version', async () => {
+            const v1 = await testing.request({ method: 'POST', url: '/v1/pets', payload: { name: 'Tom' } });
+            expect(v1.statusCode).toBe(200);
+            expect(v1.body).toEqual({ id: 2, name: 'Tom' });
+
+            const v2 = await testing.request({ method: 'POST', url: '/v2/pets', payload: { firstName: 'Tom', lastName: 'Cat' } });
+            expect(v2.body).toEqual({ id: 2, firstName: 'Tom', lastName: 'Cat' });
+
+            expect((await testing.request({ method: 'POST', url: '/v2/pets', payload: { name: 'Tom' } })).statusCode).toBe(400);
+        });
+
+        it('generates an OpenAPI document per version', () => {
+            const documents = createVersionedOpenApiDocuments(testing.app, new DocumentBuilder().build());
+
+            expect(Object.keys(documents)).toEqual(['1', '2']);
+            expect(documents['1'].info.version).toBe('1');
+            expect(Object.keys(documents['1'].paths)).toEqual(['/v1/pets/{id}', '/v1/pets']);
+            expect(Object.keys(documents['2'].paths)).toEqual(['/v2/pets/{id}', '/v2/pets']);
+            expect(Object.keys(documents['2'].paths['/v2/pets/{id}'])).toEqual(['get', 'delete']);
+
+            expect(documents['1'].components?.schemas?.['GetPetResponse']).toMatchObject({ required: ['id', 'name'] });
+            expect(documents['2'].components?.schemas?.['GetPetResponse']).toMatchObject({ required: ['id', 'firstName', 'lastName'] });
+            expect(documents['2'].components?.schemas?.['CreatePetBody']).toMatchObject({ required: ['firstName', 'lastName'] });
+        });
+
+        it('documents the last version outside of versioned documents', () => {
+            expect(testing.getOpenApiDocument().components?.schemas?.['GetPetResponse']).toMatchObject({
+                required: ['id', 'firstName', 'lastName'],
+            });
+        });
+    });
+
+    describe('with header versioning', () => {
+        let testing: TypeboxTestingApp;
+
+        beforeAll(async () => {
+            testing = await createTypeboxTestingApp({
+                controllers: [PetController, OwnerController],
+                versioning: { type: VersioningType.HEADER, header: 'X-API-Version' },
+            });
+        });
+
+        afterAll(() => testing.close());
+
+        it('validates against the schema of the request version', async () => {
+            const v1 = await testing.request({ method: 'GET', url: '/pets/7', headers: { 'x-api-version': '1' } });
+            expect(v1.body).toEqual({ id: 7, name: 'Figaro Cat' });
+
+            const v2 = await testing.request({ method: 'GET', url: '/pets/7', headers: { 'x-api-version': '2' } });
+            expect(v2.body).toEqual({ id: 7, firstName: 'Figaro', lastName: 'Cat' });
+        });
+
+        it('rejects versions without a schema', async () => {
+            const response = await testing.request({ method: 'GET', url: '/owners', headers: { 'x-api-version': '9' } });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.body).toMatchObject({ message: 'Version "9" is not supported by "GetOwnerResponse".' });
+        });
+
+        it('lists the routes of each version in its document', () => {
+            const documents = createVersionedOpenApiDocuments(testing.app, new DocumentBuilder().build());
+
+            expect(Object.keys(documents['1'].paths['/pets/{id}'])).toEqual(['get']);
+            expect(Object.keys(documents['2'].paths['/pets/{id}'])).toEqual(['get', 'delete']);
+        });
+    });
+});